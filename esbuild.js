@@ -43,6 +43,26 @@ async function main() {
 		]
 	});
 
+	// Headless CLI: the same agent with 'vscode' swapped for a settings/stderr shim
+	const cliCtx = await esbuild.context({
+		entryPoints: ['src/cli/index.ts'],
+		bundle: true,
+		format: 'cjs',
+		minify: production,
+		sourcemap: !production,
+		sourcesContent: false,
+		platform: 'node',
+		outfile: 'dist/cli.js',
+		alias: {
+			vscode: './src/cli/vscodeShim.ts'
+		},
+		banner: {
+			js: '#!/usr/bin/env node'
+		},
+		logLevel: 'silent',
+		plugins: [esbuildProblemMatcherPlugin]
+	});
+
 	// Webview build context
 	const webviewCtx = await esbuild.context({
 		entryPoints: ['src/webview/index.tsx'],
@@ -70,15 +90,18 @@ async function main() {
 	if (watch) {
 		await Promise.all([
 			ctx.watch(),
+			cliCtx.watch(),
 			webviewCtx.watch()
 		]);
 		console.log('Watching for changes...');
 	} else {
 		await Promise.all([
 			ctx.rebuild(),
+			cliCtx.rebuild(),
 			webviewCtx.rebuild()
 		]);
 		await ctx.dispose();
+		await cliCtx.dispose();
 		await webviewCtx.dispose();
 		
 		// Copy Claude Code SDK to dist for runtime access
@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs, format } from 'util';
+import { configureShim, setSetting, secretStorage, window } from './vscodeShim';
+import { ApiKeyStore } from '../services/apiKeyStore';
+import { CustomAgentService } from '../services/customAgentService';
+import { McpManager } from '../services/mcpClient';
+import { AgentStreamEvent } from '../types/agent';
+import { ToolApprovalRequest, ToolApprovalDecision } from '../services/toolApproval';
+
+const USAGE = `Usage: superdesign generate --prompt <text> [options]
+
+Runs the superdesign agent and its tools outside VS Code.
+
+Options:
+  -p, --prompt <text>       What to design
+      --prompt-file <file>  Read the prompt from a file instead
+  -o, --out <dir>           Where designs are written, inside .superdesign
+                            (default: .superdesign/design_iterations)
+  -m, --model <id>          Model to use, overrides superdesign.aiModel
+  -w, --workspace <dir>     Workspace root (default: current directory)
+  -c, --config <file>       JSON file with superdesign.* settings
+      --approve-all         Run tool calls that need approval (e.g. bash)
+                            instead of denying them
+      --trust-workspace     Start MCP servers from the workspace's
+                            .superdesign/mcp.json (skipped otherwise)
+      --json                Print agent events as JSON lines
+  -v, --verbose             Print the agent log to stderr
+  -h, --help                Show this help
+
+API keys are read from the provider's environment variable
+(ANTHROPIC_API_KEY, OPENAI_API_KEY, OPENROUTER_API_KEY, GROQ_API_KEY,
+CUSTOM_API_KEY) or from the settings file.`;
+
+const DEFAULT_OUT_DIR = path.join('.superdesign', 'design_iterations');
+
+class UsageError extends Error {}
+
+function readSettings(configPath: string | undefined): Record<string, unknown> {
+    if (!configPath) {
+        return {};
+    }
+    try {
+        return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error) {
+        throw new UsageError(`Failed to read settings from ${configPath}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+// Tools can only write inside .superdesign, so the output directory has to be there too
+function resolveOutDir(workspaceRoot: string, out: string | undefined): string {
+    const superdesignDir = path.join(workspaceRoot, '.superdesign');
+    const outDir = path.resolve(workspaceRoot, out ?? DEFAULT_OUT_DIR);
+    const relative = path.relative(superdesignDir, outDir);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new UsageError(`--out must be inside ${superdesignDir}`);
+    }
+    return relative.split(path.sep).join('/') || '.';
+}
+
+function buildPrompt(prompt: string, outDir: string): string {
+    if (outDir === 'design_iterations') {
+        return prompt;
+    }
+    return `${prompt}\n\nSave the design files in ${outDir}/ instead of design_iterations/, using the same file naming.`;
+}
+
+function printEvent(event: AgentStreamEvent, json: boolean): void {
+    if (json) {
+        process.stdout.write(`${JSON.stringify(event)}\n`);
+        return;
+    }
+    switch (event.type) {
+        case 'text':
+            process.stdout.write(event.text);
+            break;
+        case 'tool-call':
+            process.stderr.write(`\n→ ${event.toolName} ${event.args?.file_path ?? event.args?.command ?? ''}\n`);
+            break;
+        case 'tool-result':
+            if (event.isError) {
+                process.stderr.write(`✗ ${event.toolName} failed\n`);
+            }
+            break;
+        case 'notice':
+            process.stderr.write(`${event.message}\n`);
+            break;
+        case 'step-budget-exhausted':
+            process.stderr.write(`Stopped after ${event.maxSteps} steps (superdesign.maxSteps)\n`);
+            break;
+        case 'error':
+            process.stderr.write(`error: ${event.message}\n`);
+            break;
+    }
+}
+
+async function generate(argv: string[]): Promise<number> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            prompt: { type: 'string', short: 'p' },
+            'prompt-file': { type: 'string' },
+            out: { type: 'string', short: 'o' },
+            model: { type: 'string', short: 'm' },
+            workspace: { type: 'string', short: 'w' },
+            config: { type: 'string', short: 'c' },
+            'approve-all': { type: 'boolean', default: false },
+            'trust-workspace': { type: 'boolean', default: false },
+            json: { type: 'boolean', default: false },
+            verbose: { type: 'boolean', short: 'v', default: false }
+        }
+    });
+
+    const prompt = values['prompt-file'] ? fs.readFileSync(values['prompt-file'], 'utf8').trim() : values.prompt;
+    if (!prompt) {
+        throw new UsageError('A prompt is required, pass --prompt or --prompt-file');
+    }
+
+    const workspaceRoot = path.resolve(values.workspace ?? process.cwd());
+    const outDir = resolveOutDir(workspaceRoot, values.out);
+    configureShim({ settings: readSettings(values.config), workspaceRoot, verbose: values.verbose });
+    if (values.model) {
+        setSetting('aiModel', values.model);
+    }
+    ApiKeyStore.initialize(secretStorage);
+    fs.mkdirSync(path.join(workspaceRoot, '.superdesign', outDir), { recursive: true });
+
+    // Nobody is there to answer an approval card
+    const requestToolApproval = async (request: ToolApprovalRequest): Promise<ToolApprovalDecision> => {
+        if (values['approve-all']) {
+            return 'approve';
+        }
+        process.stderr.write(`Denied ${request.toolName}: ${request.reason} (rerun with --approve-all to allow it)\n`);
+        return 'deny';
+    };
+
+    const outputChannel = window.createOutputChannel('Superdesign');
+    // Services still log some debugging with console.*, stdout is kept for the agent's answer
+    console.log = console.info = console.debug = (...args: unknown[]) => outputChannel.appendLine(format(...args));
+
+    // Nobody is there to confirm a workspace MCP server either
+    const mcpManager = new McpManager(async name => {
+        if (!values['trust-workspace']) {
+            process.stderr.write(`Skipped MCP server ${name} from .superdesign/mcp.json (rerun with --trust-workspace to start it)\n`);
+        }
+        return values['trust-workspace'] ?? false;
+    });
+    const agent = new CustomAgentService(outputChannel, mcpManager);
+    const abortController = new AbortController();
+    process.once('SIGINT', () => abortController.abort());
+
+    let failed = false;
+    try {
+        await agent.query(buildPrompt(prompt, outDir), undefined, { requestToolApproval }, abortController, event => {
+            failed = failed || event.type === 'error';
+            printEvent(event, values.json);
+        });
+    } catch (error) {
+        if (abortController.signal.aborted) {
+            process.stderr.write('\nCancelled\n');
+            return 130;
+        }
+        process.stderr.write(`error: ${error instanceof Error ? error.message : error}\n`);
+        return 1;
+    } finally {
+        agent.dispose();
+    }
+
+    if (!values.json) {
+        process.stdout.write('\n');
+    }
+    return failed ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+    const [command, ...rest] = argv;
+    if (!command || command === '--help' || command === '-h' || rest.includes('--help') || rest.includes('-h')) {
+        process.stdout.write(`${USAGE}\n`);
+        return command ? 0 : 1;
+    }
+    if (command !== 'generate') {
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+    return generate(rest);
+}
+
+// Output piped into head and the like closes early, that is not an error
+process.stdout.on('error', error => {
+    if ((error as NodeJS.ErrnoException).code === 'EPIPE') {
+        process.exit(0);
+    }
+    throw error;
+});
+
+main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+        process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+        if (error instanceof UsageError || (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS')) {
+            process.stderr.write(`\n${USAGE}\n`);
+        }
+        process.exit(1);
+    }
+);
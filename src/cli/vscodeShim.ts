@@ -0,0 +1,124 @@
+import type * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * The few parts of the vscode API that the agent, its tools and services use,
+ * backed by a settings object, environment variables and stderr. The CLI bundle
+ * aliases 'vscode' to this module so the same services run under plain Node.
+ */
+
+export interface ShimOptions {
+    // superdesign.* settings, keys with or without the "superdesign." prefix
+    settings: Record<string, unknown>;
+    workspaceRoot: string;
+    // Forward the output channel (the extension's log) to stderr
+    verbose: boolean;
+}
+
+let options: ShimOptions = { settings: {}, workspaceRoot: process.cwd(), verbose: false };
+
+export function configureShim(shimOptions: ShimOptions): void {
+    const settings = Object.fromEntries(
+        Object.entries(shimOptions.settings).map(([key, value]) => [key.replace(/^superdesign\./, ''), value])
+    );
+    options = { ...shimOptions, settings };
+}
+
+export function setSetting(key: string, value: unknown): void {
+    options.settings[key] = value;
+}
+
+export enum ConfigurationTarget {
+    Global = 1,
+    Workspace = 2,
+    WorkspaceFolder = 3
+}
+
+function createConfiguration() {
+    return {
+        get<T>(key: string, defaultValue?: T): T | undefined {
+            return key in options.settings ? options.settings[key] as T : defaultValue;
+        },
+        has(key: string): boolean {
+            return key in options.settings;
+        },
+        inspect<T>(key: string) {
+            return { key, globalValue: options.settings[key] as T | undefined };
+        },
+        // Settings only change for this run, nothing is written back
+        async update(key: string, value: unknown): Promise<void> {
+            options.settings[key] = value;
+        }
+    };
+}
+
+export const workspace = {
+    get workspaceFolders() {
+        return [{ uri: { fsPath: options.workspaceRoot }, name: path.basename(options.workspaceRoot), index: 0 }];
+    },
+    getConfiguration(_section?: string) {
+        return createConfiguration();
+    }
+};
+
+function writeStderr(message: string): void {
+    process.stderr.write(`${message}\n`);
+}
+
+export const window = {
+    createOutputChannel(name: string): vscode.OutputChannel {
+        const log = (value: string) => {
+            if (options.verbose) {
+                process.stderr.write(value);
+            }
+        };
+        return {
+            name,
+            append: log,
+            appendLine: (value: string) => log(`${value}\n`),
+            replace: log,
+            clear: () => undefined,
+            show: () => undefined,
+            hide: () => undefined,
+            dispose: () => undefined
+        };
+    },
+    async showErrorMessage(message: string): Promise<undefined> {
+        writeStderr(`error: ${message}`);
+        return undefined;
+    },
+    async showWarningMessage(message: string): Promise<undefined> {
+        writeStderr(`warning: ${message}`);
+        return undefined;
+    },
+    async showInformationMessage(message: string): Promise<undefined> {
+        if (options.verbose) {
+            writeStderr(message);
+        }
+        return undefined;
+    }
+};
+
+// anthropicApiKey -> ANTHROPIC_API_KEY
+function getEnvironmentName(settingKey: string): string {
+    return settingKey.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+/**
+ * API keys come from the provider's usual environment variable, or from the
+ * settings file under the key's setting name
+ */
+export const secretStorage: vscode.SecretStorage = {
+    async get(key: string): Promise<string | undefined> {
+        const settingKey = key.replace(/^superdesign\./, '');
+        const setting = options.settings[settingKey];
+        return process.env[getEnvironmentName(settingKey)] || (typeof setting === 'string' ? setting : undefined);
+    },
+    async store(key: string, value: string): Promise<void> {
+        options.settings[key.replace(/^superdesign\./, '')] = value;
+    },
+    async delete(key: string): Promise<void> {
+        delete options.settings[key.replace(/^superdesign\./, '')];
+    },
+    onDidChange: () => ({ dispose: () => undefined })
+};
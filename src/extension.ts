@@ -2,8 +2,14 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
 import { CustomAgentService } from './services/customAgentService';
+import { AgentBackendRouter } from './services/agentBackend';
 import { ChatSidebarProvider } from './providers/chatSidebarProvider';
 import { Logger, LogLevel } from './services/logger';
+import { getCustomModels, getProviders, resolveActiveProvider, CUSTOM_MODEL_PREFIX } from './services/providerRegistry';
+import { ApiKeyStore } from './services/apiKeyStore';
+import { UsageTracker } from './services/usageTracker';
+import { listTranscripts, SCRIPTED_MODEL_PREFIX } from './services/scriptedModel';
+import { buildSystemPrompt } from './services/systemPrompt';
 import * as path from 'path';
 
 // This method is called when your extension is activated
@@ -254,389 +260,7 @@ async function initializeSuperdesignProject() {
 	const isWindows = process.platform === 'win32';
 	const shortcut = isWindows ? 'Ctrl+Shift+P' : 'Command+Shift+P';
 
-	const designRuleContent = `When asked to design UI & frontend interface
-When asked to design UI & frontend interface
-# Role
-You are superdesign, a senior frontend designer integrated into VS Code as part of the Super Design extension.
-Your goal is to help user generate amazing design using code
-
-# Instructions
-- Use the available tools when needed to help with file operations and code analysis
-- When creating design file:
-  - Build one single html page of just one screen to build a design based on users' feedback/task
-  - You ALWAYS output design files in '.superdesign/design_iterations' folder as {design_name}_{n}.html (Where n needs to be unique like table_1.html, table_2.html, etc.) or svg file
-  - If you are iterating design based on existing file, then the naming convention should be {current_file_name}_{n}.html, e.g. if we are iterating ui_1.html, then each version should be ui_1_1.html, ui_1_2.html, etc.
-- You should ALWAYS use tools above for write/edit html files, don't just output in a message, always do tool calls
-
-## Styling
-1. superdesign tries to use the flowbite library as a base unless the user specifies otherwise.
-2. superdesign avoids using indigo or blue colors unless specified in the user's request.
-3. superdesign MUST generate responsive designs.
-4. When designing component, poster or any other design that is not full app, you should make sure the background fits well with the actual poster or component UI color; e.g. if component is light then background should be dark, vice versa.
-5. Font should always using google font, below is a list of default fonts: 'JetBrains Mono', 'Fira Code', 'Source Code Pro','IBM Plex Mono','Roboto Mono','Space Mono','Geist Mono','Inter','Roboto','Open Sans','Poppins','Montserrat','Outfit','Plus Jakarta Sans','DM Sans','Geist','Oxanium','Architects Daughter','Merriweather','Playfair Display','Lora','Source Serif Pro','Libre Baskerville','Space Grotesk'
-6. When creating CSS, make sure you include !important for all properties that might be overwritten by tailwind & flowbite, e.g. h1, body, etc.
-7. Unless user asked specifcially, you should NEVER use some bootstrap style blue color, those are terrible color choices, instead looking at reference below.
-8. Example theme patterns:
-Ney-brutalism style that feels like 90s web design
-<neo-brutalism-style>
-:root {
-  --background: oklch(1.0000 0 0);
-  --foreground: oklch(0 0 0);
-  --card: oklch(1.0000 0 0);
-  --card-foreground: oklch(0 0 0);
-  --popover: oklch(1.0000 0 0);
-  --popover-foreground: oklch(0 0 0);
-  --primary: oklch(0.6489 0.2370 26.9728);
-  --primary-foreground: oklch(1.0000 0 0);
-  --secondary: oklch(0.9680 0.2110 109.7692);
-  --secondary-foreground: oklch(0 0 0);
-  --muted: oklch(0.9551 0 0);
-  --muted-foreground: oklch(0.3211 0 0);
-  --accent: oklch(0.5635 0.2408 260.8178);
-  --accent-foreground: oklch(1.0000 0 0);
-  --destructive: oklch(0 0 0);
-  --destructive-foreground: oklch(1.0000 0 0);
-  --border: oklch(0 0 0);
-  --input: oklch(0 0 0);
-  --ring: oklch(0.6489 0.2370 26.9728);
-  --chart-1: oklch(0.6489 0.2370 26.9728);
-  --chart-2: oklch(0.9680 0.2110 109.7692);
-  --chart-3: oklch(0.5635 0.2408 260.8178);
-  --chart-4: oklch(0.7323 0.2492 142.4953);
-  --chart-5: oklch(0.5931 0.2726 328.3634);
-  --sidebar: oklch(0.9551 0 0);
-  --sidebar-foreground: oklch(0 0 0);
-  --sidebar-primary: oklch(0.6489 0.2370 26.9728);
-  --sidebar-primary-foreground: oklch(1.0000 0 0);
-  --sidebar-accent: oklch(0.5635 0.2408 260.8178);
-  --sidebar-accent-foreground: oklch(1.0000 0 0);
-  --sidebar-border: oklch(0 0 0);
-  --sidebar-ring: oklch(0.6489 0.2370 26.9728);
-  --font-sans: DM Sans, sans-serif;
-  --font-serif: ui-serif, Georgia, Cambria, "Times New Roman", Times, serif;
-  --font-mono: Space Mono, monospace;
-  --radius: 0px;
-  --shadow-2xs: 4px 4px 0px 0px hsl(0 0% 0% / 0.50);
-  --shadow-xs: 4px 4px 0px 0px hsl(0 0% 0% / 0.50);
-  --shadow-sm: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 1px 2px -1px hsl(0 0% 0% / 1.00);
-  --shadow: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 1px 2px -1px hsl(0 0% 0% / 1.00);
-  --shadow-md: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 2px 4px -1px hsl(0 0% 0% / 1.00);
-  --shadow-lg: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 4px 6px -1px hsl(0 0% 0% / 1.00);
-  --shadow-xl: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 8px 10px -1px hsl(0 0% 0% / 1.00);
-  --shadow-2xl: 4px 4px 0px 0px hsl(0 0% 0% / 2.50);
-  --tracking-normal: 0em;
-  --spacing: 0.25rem;
-
-  --radius-sm: calc(var(--radius) - 4px);
-  --radius-md: calc(var(--radius) - 2px);
-  --radius-lg: var(--radius);
-  --radius-xl: calc(var(--radius) + 4px);
-}
-</neo-brutalism-style>
-
-Modern dark mode style like vercel, linear
-<modern-dark-mode-style>
-:root {
-  --background: oklch(1 0 0);
-  --foreground: oklch(0.1450 0 0);
-  --card: oklch(1 0 0);
-  --card-foreground: oklch(0.1450 0 0);
-  --popover: oklch(1 0 0);
-  --popover-foreground: oklch(0.1450 0 0);
-  --primary: oklch(0.2050 0 0);
-  --primary-foreground: oklch(0.9850 0 0);
-  --secondary: oklch(0.9700 0 0);
-  --secondary-foreground: oklch(0.2050 0 0);
-  --muted: oklch(0.9700 0 0);
-  --muted-foreground: oklch(0.5560 0 0);
-  --accent: oklch(0.9700 0 0);
-  --accent-foreground: oklch(0.2050 0 0);
-  --destructive: oklch(0.5770 0.2450 27.3250);
-  --destructive-foreground: oklch(1 0 0);
-  --border: oklch(0.9220 0 0);
-  --input: oklch(0.9220 0 0);
-  --ring: oklch(0.7080 0 0);
-  --chart-1: oklch(0.8100 0.1000 252);
-  --chart-2: oklch(0.6200 0.1900 260);
-  --chart-3: oklch(0.5500 0.2200 263);
-  --chart-4: oklch(0.4900 0.2200 264);
-  --chart-5: oklch(0.4200 0.1800 266);
-  --sidebar: oklch(0.9850 0 0);
-  --sidebar-foreground: oklch(0.1450 0 0);
-  --sidebar-primary: oklch(0.2050 0 0);
-  --sidebar-primary-foreground: oklch(0.9850 0 0);
-  --sidebar-accent: oklch(0.9700 0 0);
-  --sidebar-accent-foreground: oklch(0.2050 0 0);
-  --sidebar-border: oklch(0.9220 0 0);
-  --sidebar-ring: oklch(0.7080 0 0);
-  --font-sans: ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans', sans-serif, 'Apple Color Emoji', 'Segoe UI Emoji', 'Segoe UI Symbol', 'Noto Color Emoji';
-  --font-serif: ui-serif, Georgia, Cambria, "Times New Roman", Times, serif;
-  --font-mono: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace;
-  --radius: 0.625rem;
-  --shadow-2xs: 0 1px 3px 0px hsl(0 0% 0% / 0.05);
-  --shadow-xs: 0 1px 3px 0px hsl(0 0% 0% / 0.05);
-  --shadow-sm: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10);
-  --shadow: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10);
-  --shadow-md: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 2px 4px -1px hsl(0 0% 0% / 0.10);
-  --shadow-lg: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 4px 6px -1px hsl(0 0% 0% / 0.10);
-  --shadow-xl: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 8px 10px -1px hsl(0 0% 0% / 0.10);
-  --shadow-2xl: 0 1px 3px 0px hsl(0 0% 0% / 0.25);
-  --tracking-normal: 0em;
-  --spacing: 0.25rem;
-
-  --radius-sm: calc(var(--radius) - 4px);
-  --radius-md: calc(var(--radius) - 2px);
-  --radius-lg: var(--radius);
-  --radius-xl: calc(var(--radius) + 4px);
-}
-</modern-dark-mode-style>
-
-## Images & icons
-1. For images, just use placeholder image from public source like unsplash, placehold.co or others that you already know exact image url; Don't make up urls
-2. For icons, we should use lucid icons or other public icons, import like <script src="https://unpkg.com/lucide@latest/dist/umd/lucide.min.js"></script>
-
-## Script
-1. When importing tailwind css, just use <script src="https://cdn.tailwindcss.com"></script>, don't load CSS directly as a stylesheet resource like <link href="https://cdn.jsdelivr.net/npm/tailwindcss@2.2.19/dist/tailwind.min.css" rel="stylesheet">
-2. When using flowbite, import like <script src="https://cdn.jsdelivr.net/npm/flowbite@2.0.0/dist/flowbite.min.js"></script>
-
-## Workflow
-You should always follow workflow below unless user explicitly ask you to do something else:
-1. Layout design
-2. Theme design (Color, font, spacing, shadown), using generateTheme tool, it should save the css to a local file
-3. Core Animation design
-4. Generate a singlehtml file for the UI
-5. You HAVE TO confirm with user step by step, don't do theme design until user sign off the layout design, same for all follownig steps
-
-### 1. Layout design
-Output type: Just text
-Think through how should the layout of interface look like, what are different UI components
-And present the layout in ASCII wireframe format, here are the guidelines of good ASCII wireframe, you can do ASCII art too for more custom layout or graphic design
-
-### 2. Theme design
-Output type: Tool call
-Think through what are the colors, fonts, spacing, etc. 
-You HAVE TO use generateTheme tool to generate the theme, do NOT just output XML type text for tool-call, that is not allowed
-
-### 3. Animation design
-Output type: Just text
-Think through what are the animations, transitions, etc. 
-
-### 4. Generate html file for each UI component and then combine them together to form a single html file
-Output type: Tool call
-Generate html file for each UI component and then combine them together to form a single html file
-Make sure to reference the theme css file you created in step 2, and add custom ones that doesn't exist yet in html file
-You HAVE TO use write tool to generate the html file, do NOT just output XML type text for tool-call, that is not allowed
-
-<example>
-<user>design an AI chat UI</user>
-
-<assistant>
-Let's think through the layout design for an AI chat UI. Here are the key components and layout considerations:
-
-## Core UI Components
-
-**Header Area**
-- Settings/menu button (Top left)
-- Chat title/AI name (Top left)
-- Conversation controls (new chat, clear, etc.) (Top right)
-
-**Main Chat Area**
-- Message container (scrollable) (Full width & height)
-- User messages (typically right-aligned)
-- AI messages (typically left-aligned)
-- Message timestamps (Small subtle text at the bottom of each message, aligned to the right/left depending on the message)
-
-**Input Area**
-- Text input field (Full width left)
-- Send button (Embed within the input field,Bottom right side of the screen)
-- Additional controls (attach files, voice input, etc.) (Embed within the input field, Bottom left)
-- Character/token counter (optional) (Embed within the input field, top right corner, small text)
-
-
-## Layout Structure Options
-
-┌─────────────────────────────────────┐
-│ ☰          HEADER BAR            + │
-├─────────────────────────────────────┤
-│                                     │
-│ ┌─────────────────────────────┐     │
-│ │     AI Message Bubble       │     │
-│ └─────────────────────────────┘     │
-│                                     │
-│     ┌─────────────────────────────┐ │
-│     │     User Message Bubble     │ │
-│     └─────────────────────────────┘ │
-│                                     │
-│ ┌─────────────────────────────┐     │
-│ │     AI Message Bubble       │     │
-│ └─────────────────────────────┘     │
-│                                     │
-│              [CHAT AREA]            │
-│                                     │
-├─────────────────────────────────────┤
-│ [Text Input Field]           [Send] │
-└─────────────────────────────────────┘
-
-When hamburger (☰) is clicked, sidebar slides out:
-┌──────────────┬─────────────────────────────────────┐
-│   SIDEBAR    │ ☰           HEADER BAR           + │
-│ ┌──────────┐ ├─────────────────────────────────────┤
-│ │ Chat 1   │ │                                     │
-│ │ Chat 2   │ │ ┌─────────────────────────────┐     │
-│ │ Chat 3   │ │ │     AI Message Bubble       │     │
-│ │ + New    │ │ └─────────────────────────────┘     │
-│ └──────────┘ │                                     │
-│              │     ┌─────────────────────────────┐ │
-│              │     │     User Message Bubble     │ │
-│              │     └─────────────────────────────┘ │
-│              │                                     │
-│              │ ┌─────────────────────────────┐     │
-│              │ │     AI Message Bubble       │     │
-│              │ └─────────────────────────────┘     │
-│              │                                     │
-│              │              [CHAT AREA]            │
-│              │                                     │
-│              ├─────────────────────────────────────┤
-│              │ [Text Input Field]           [Send] │
-└──────────────┘─────────────────────────────────────┘
-
-Would you like to go ahead with this layout & UI interaction or needs any modification?
-</assistant>
-
-<user>
-They looks good
-</user>
-
-<assistant>
-Great, next let's design the color & font theme,
-
-generateTheme(theme_name='Vercel techy style', reasoning_reference='Reference classic shadcn style that has ...', cssFilePath='.superdesign/design_iterations/theme_1.css', cssSheet=':root {
-  --background: oklch(1.0000 0 0);
-  --foreground: oklch(0.1448 0 0);
-  --card: oklch(1.0000 0 0);
-  --card-foreground: oklch(0.1448 0 0);
-  --popover: oklch(1.0000 0 0);
-  --popover-foreground: oklch(0.1448 0 0);
-  --primary: oklch(0.5555 0 0);
-  --primary-foreground: oklch(0.9851 0 0);
-  --secondary: oklch(0.9702 0 0);
-  --secondary-foreground: oklch(0.2046 0 0);
-  --muted: oklch(0.9702 0 0);
-  --muted-foreground: oklch(0.5486 0 0);
-  --accent: oklch(0.9702 0 0);
-  --accent-foreground: oklch(0.2046 0 0);
-  --destructive: oklch(0.5830 0.2387 28.4765);
-  --destructive-foreground: oklch(0.9702 0 0);
-  --border: oklch(0.9219 0 0);
-  --input: oklch(0.9219 0 0);
-  --ring: oklch(0.7090 0 0);
-  --chart-1: oklch(0.5555 0 0);
-  --chart-2: oklch(0.5555 0 0);
-  --chart-3: oklch(0.5555 0 0);
-  --chart-4: oklch(0.5555 0 0);
-  --chart-5: oklch(0.5555 0 0);
-  --sidebar: oklch(0.9851 0 0);
-  --sidebar-foreground: oklch(0.1448 0 0);
-  --sidebar-primary: oklch(0.2046 0 0);
-  --sidebar-primary-foreground: oklch(0.9851 0 0);
-  --sidebar-accent: oklch(0.9702 0 0);
-  --sidebar-accent-foreground: oklch(0.2046 0 0);
-  --sidebar-border: oklch(0.9219 0 0);
-  --sidebar-ring: oklch(0.7090 0 0);
-  --font-sans: Geist Mono, monospace;
-  --font-serif: Geist Mono, monospace;
-  --font-mono: Geist Mono, monospace;
-  --radius: 0rem;
-  --shadow-2xs: 0px 1px 0px 0px hsl(0 0% 0% / 0.00);
-  --shadow-xs: 0px 1px 0px 0px hsl(0 0% 0% / 0.00);
-  --shadow-sm: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 1px 2px -1px hsl(0 0% 0% / 0.00);
-  --shadow: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 1px 2px -1px hsl(0 0% 0% / 0.00);
-  --shadow-md: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 2px 4px -1px hsl(0 0% 0% / 0.00);
-  --shadow-lg: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 4px 6px -1px hsl(0 0% 0% / 0.00);
-  --shadow-xl: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 8px 10px -1px hsl(0 0% 0% / 0.00);
-  --shadow-2xl: 0px 1px 0px 0px hsl(0 0% 0% / 0.00);
-  --tracking-normal: 0em;
-  --spacing: 0.25rem;
-}')
-
-
-<user>
-I like the vintage style
-</user>
-
-<assistant>
-Great, next let's design the animation:
-
-# CHAT UI ANIMATIONS - MICRO-SYNTAX
-
-## Core Message Flow
-userMsg: 400ms ease-out [Y+20→0, X+10→0, S0.9→1]
-aiMsg: 600ms bounce [Y+15→0, S0.95→1] +200ms
-typing: 1400ms ∞ [Y±8, α0.4→1] stagger+200ms
-status: 300ms ease-out [α0.6→1, S1→1.05→1]
-
-## Interface Transitions  
-sidebar: 350ms ease-out [X-280→0, α0→1]
-overlay: 300ms [α0→1, blur0→4px]
-input: 200ms [S1→1.01, shadow+ring] focus
-input: 150ms [S1.01→1, shadow-ring] blur
-
-## Button Interactions
-sendBtn: 150ms [S1→0.95→1, R±2°] press
-sendBtn: 200ms [S1→1.05, shadow↗] hover
-ripple: 400ms [S0→2, α1→0]
-
-## Loading States
-chatLoad: 500ms ease-out [Y+40→0, α0→1]
-skeleton: 2000ms ∞ [bg: muted↔accent]
-spinner: 1000ms ∞ linear [R360°]
-
-## Micro Interactions
-msgHover: 200ms [Y0→-2, shadow↗]
-msgSelect: 200ms [bg→accent, S1→1.02]
-error: 400ms [X±5] shake
-success: 600ms bounce [S0→1.2→1, R360°]
-
-## Scroll & Navigation
-autoScroll: 400ms smooth
-scrollHint: 800ms ∞×3 [Y±5]
-
-This animation system creates a cohesive, responsive feel throughout the chat interface. Each animation has specific timing and easing to feel natural and purposeful. Would you like me to adjust any of these animations or add additional ones?
-
-</assistant>
-
-<user>
-This looks great, lets do it
-</user>
-
-<assistant>
-Great, I will generate the html file for each UI component and then combine them together to form a single html file
-
-write(file_path='.superdesign/design_iterations/chat_ui.css', content='...')
-write(file_path='.superdesign/design_iterations/chat_ui.html', content='...')
-
-I've created the html design, please reveiw and let me know if you need any changes
-
-</example>
-
-IMPORTANT RULES:
-1. You MUST use tools call below for any action like generateTheme, write, edit, etc. You are NOT allowed to just output text like 'Called tool: write with arguments: ...' or <tool-call>...</tool-call>; MUST USE TOOL CALL (This is very important!!)
-2. You MUST confirm the layout, and then theme style, and then animation
-3. You MUST use .superdesign/design_iterations folder to save the design files, do NOT save to other folders
-4. You MUST create follow the workflow above
-
-# Available Tools
-- **read**: Read file contents within the workspace (supports text files, images, with line range options)
-- **write**: Write content to files in the workspace (creates parent directories automatically)
-- **edit**: Replace text within files using exact string matching (requires precise text matching including whitespace and indentation)
-- **multiedit**: Perform multiple find-and-replace operations on a single file in sequence (each edit applied to result of previous edit)
-- **glob**: Find files and directories matching glob patterns (e.g., "*.js", "src/**/*.ts") - efficient for locating files by name or path structure
-- **grep**: Search for text patterns within file contents using regular expressions (can filter by file types and paths)
-- **ls**: List directory contents with optional filtering, sorting, and detailed information (shows files and subdirectories)
-- **bash**: Execute shell/bash commands within the workspace (secure execution with timeouts and output capture)
-- **generateTheme**: Generate a theme for the design
-
-When calling tools, you MUST use the actual tool call, do NOT just output text like 'Called tool: write with arguments: ...' or <tool-call>...</tool-call>, this won't actually call the tool. (This is very important to my life, please follow)`;
+	const designRuleContent = await buildSystemPrompt('rules', superdesignFolder.fsPath);
 
 	const designRuleMdcContent = `---
 description: Use this rule when asked to do any frontend or UI design
@@ -1247,6 +871,12 @@ export function activate(context: vscode.ExtensionContext) {
 	Logger.info('Superdesign extension is now active!');
 	// Note: Users can manually open output via View → Output → Select "Superdesign" if needed
 
+	// Provider API keys live in secret storage; move any left in plain settings over
+	ApiKeyStore.initialize(context.secrets);
+	ApiKeyStore.migrateFromSettings(getProviders()
+		.map(provider => provider.apiKeySetting)
+		.filter((settingKey): settingKey is string => !!settingKey));
+
 	// Initialize Custom Agent service
 	Logger.info('Creating CustomAgentService...');
 	const customAgent = new CustomAgentService(Logger.getOutputChannel());
@@ -1274,9 +904,22 @@ export function activate(context: vscode.ExtensionContext) {
 		await configureOpenRouterApiKey();
 	});
 
+	const configureGroqApiKeyDisposable = vscode.commands.registerCommand('superdesign.configureGroqApiKey', async () => {
+		await configureGroqApiKey();
+	});
+
+	const configureCustomProviderDisposable = vscode.commands.registerCommand('superdesign.configureCustomProvider', async () => {
+		await configureCustomProvider();
+	});
+
+	const selectScriptedTranscriptDisposable = vscode.commands.registerCommand('superdesign.selectScriptedTranscript', async () => {
+		await selectScriptedTranscript();
+	});
+
 
 	// Create the chat sidebar provider
-	const sidebarProvider = new ChatSidebarProvider(context.extensionUri, customAgent, Logger.getOutputChannel());
+	const agentService = new AgentBackendRouter(customAgent, Logger.getOutputChannel());
+	const sidebarProvider = new ChatSidebarProvider(context.extensionUri, agentService, Logger.getOutputChannel());
 	
 	// Register the webview view provider for sidebar
 	const sidebarDisposable = vscode.window.registerWebviewViewProvider(
@@ -1329,6 +972,15 @@ export function activate(context: vscode.ExtensionContext) {
 		await configureAnthropicApiKey();
 	});
 
+	// Register workspace token usage command
+	const showUsageDisposable = vscode.commands.registerCommand('superdesign.showUsage', async () => {
+		await showWorkspaceUsage();
+	});
+
+	const previewSystemPromptDisposable = vscode.commands.registerCommand('superdesign.previewSystemPrompt', async () => {
+		await previewSystemPrompt();
+	});
+
 	// Set up message handler for auto-canvas functionality
 	sidebarProvider.setMessageHandler((message) => {
 		switch (message.command) {
@@ -1392,6 +1044,9 @@ export function activate(context: vscode.ExtensionContext) {
 		configureApiKeyDisposable,
 		configureOpenAIApiKeyDisposable,
 		configureOpenRouterApiKeyDisposable,
+		configureGroqApiKeyDisposable,
+		configureCustomProviderDisposable,
+		selectScriptedTranscriptDisposable,
 		sidebarDisposable,
 		showSidebarDisposable,
 		openCanvasDisposable,
@@ -1399,13 +1054,71 @@ export function activate(context: vscode.ExtensionContext) {
 		resetWelcomeDisposable,
 		initializeProjectDisposable,
 		openSettingsDisposable,
-		configureApiKeyQuickDisposable
+		configureApiKeyQuickDisposable,
+		showUsageDisposable,
+		previewSystemPromptDisposable,
+		// Stops the MCP servers the agent started
+		customAgent
+	);
+}
+
+// Function to show the system prompt the agent will use, after .superdesign/prompts overrides
+async function previewSystemPrompt() {
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	if (!workspaceFolder) {
+		vscode.window.showErrorMessage('No workspace folder found. Please open a workspace first.');
+		return;
+	}
+
+	try {
+		const superdesignDir = path.join(workspaceFolder.uri.fsPath, '.superdesign');
+		const prompt = await buildSystemPrompt('agent', superdesignDir, resolveActiveProvider().model);
+		const document = await vscode.workspace.openTextDocument({ content: prompt, language: 'markdown' });
+		await vscode.window.showTextDocument(document, { preview: true });
+	} catch (error) {
+		vscode.window.showErrorMessage(`Failed to build system prompt: ${error}`);
+	}
+}
+
+// Function to summarize the token usage recorded in .superdesign/usage.json
+async function showWorkspaceUsage() {
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	if (!workspaceFolder) {
+		vscode.window.showErrorMessage('No workspace folder found. Please open a workspace first.');
+		return;
+	}
+
+	const superdesignDir = path.join(workspaceFolder.uri.fsPath, '.superdesign');
+	const usage = await new UsageTracker(superdesignDir).read();
+	const { totals } = usage;
+
+	if (totals.requests === 0) {
+		vscode.window.showInformationMessage('No token usage recorded for this workspace yet.');
+		return;
+	}
+
+	const topModels = Object.entries(usage.models)
+		.sort(([, a], [, b]) => b.costUsd - a.costUsd)
+		.slice(0, 3)
+		.map(([model, modelTotals]) => `${model} $${modelTotals.costUsd.toFixed(2)}`)
+		.join(', ');
+	const unpricedNote = totals.unpricedRequests > 0 ? ` (${totals.unpricedRequests} requests without a known price)` : '';
+
+	const selection = await vscode.window.showInformationMessage(
+		`Workspace usage: ${totals.inputTokens.toLocaleString()} input / ${totals.outputTokens.toLocaleString()} output tokens, ` +
+		`$${totals.costUsd.toFixed(2)} across ${totals.requests} requests${unpricedNote}. Top models: ${topModels}`,
+		'Open usage.json'
 	);
+
+	if (selection === 'Open usage.json') {
+		const document = await vscode.workspace.openTextDocument(path.join(superdesignDir, 'usage.json'));
+		await vscode.window.showTextDocument(document);
+	}
 }
 
 // Function to configure Anthropic API key
 async function configureAnthropicApiKey() {
-	const currentKey = vscode.workspace.getConfiguration('superdesign').get<string>('anthropicApiKey');
+	const currentKey = await ApiKeyStore.get('anthropicApiKey');
 
 	const input = await vscode.window.showInputBox({
 		title: 'Configure Anthropic API Key',
@@ -1431,11 +1144,7 @@ async function configureAnthropicApiKey() {
 		// Only update if user didn't just keep the masked value
 		if (input !== '••••••••••••••••') {
 			try {
-				await vscode.workspace.getConfiguration('superdesign').update(
-					'anthropicApiKey', 
-					input.trim(), 
-					vscode.ConfigurationTarget.Global
-				);
+				await ApiKeyStore.set('anthropicApiKey', input.trim());
 				vscode.window.showInformationMessage('✅ Anthropic API key configured successfully!');
 			} catch (error) {
 				vscode.window.showErrorMessage(`Failed to save API key: ${error}`);
@@ -1450,7 +1159,7 @@ async function configureAnthropicApiKey() {
 
 // Function to configure OpenAI API key
 async function configureOpenAIApiKey() {
-	const currentKey = vscode.workspace.getConfiguration('superdesign').get<string>('openaiApiKey');
+	const currentKey = await ApiKeyStore.get('openaiApiKey');
 
 	const input = await vscode.window.showInputBox({
 		title: 'Configure OpenAI API Key',
@@ -1476,11 +1185,7 @@ async function configureOpenAIApiKey() {
 		// Only update if user didn't just keep the masked value
 		if (input !== '••••••••••••••••') {
 			try {
-				await vscode.workspace.getConfiguration('superdesign').update(
-					'openaiApiKey', 
-					input.trim(), 
-					vscode.ConfigurationTarget.Global
-				);
+				await ApiKeyStore.set('openaiApiKey', input.trim());
 				vscode.window.showInformationMessage('✅ OpenAI API key configured successfully!');
 			} catch (error) {
 				vscode.window.showErrorMessage(`Failed to save API key: ${error}`);
@@ -1495,7 +1200,7 @@ async function configureOpenAIApiKey() {
 
 // Function to configure OpenRouter API key
 async function configureOpenRouterApiKey() {
-	const currentKey = vscode.workspace.getConfiguration('superdesign').get<string>('openrouterApiKey');
+	const currentKey = await ApiKeyStore.get('openrouterApiKey');
 
 	const input = await vscode.window.showInputBox({
 		title: 'Configure OpenRouter API Key',
@@ -1521,11 +1226,7 @@ async function configureOpenRouterApiKey() {
 		// Only update if user didn't just keep the masked value
 		if (input !== '••••••••••••••••') {
 			try {
-				await vscode.workspace.getConfiguration('superdesign').update(
-					'openrouterApiKey', 
-					input.trim(), 
-					vscode.ConfigurationTarget.Global
-				);
+				await ApiKeyStore.set('openrouterApiKey', input.trim());
 				vscode.window.showInformationMessage('✅ OpenRouter API key configured successfully!');
 			} catch (error) {
 				vscode.window.showErrorMessage(`Failed to save API key: ${error}`);
@@ -1538,6 +1239,176 @@ async function configureOpenRouterApiKey() {
 	}
 }
 
+// Function to configure Groq API key
+async function configureGroqApiKey() {
+	const currentKey = await ApiKeyStore.get('groqApiKey');
+
+	const input = await vscode.window.showInputBox({
+		title: 'Configure Groq API Key',
+		prompt: 'Enter your Groq API key (get one from https://console.groq.com/keys)',
+		value: currentKey ? '••••••••••••••••' : '',
+		password: true,
+		placeHolder: 'gsk_...',
+		validateInput: (value) => {
+			if (!value || value.trim().length === 0) {
+				return 'API key cannot be empty';
+			}
+			if (value === '••••••••••••••••') {
+				return null; // User didn't change the masked value, that's OK
+			}
+			if (!value.startsWith('gsk_')) {
+				return 'Groq API keys should start with "gsk_"';
+			}
+			return null;
+		}
+	});
+
+	if (input !== undefined) {
+		// Only update if user didn't just keep the masked value
+		if (input !== '••••••••••••••••') {
+			try {
+				await ApiKeyStore.set('groqApiKey', input.trim());
+				vscode.window.showInformationMessage('✅ Groq API key configured successfully!');
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to save API key: ${error}`);
+			}
+		} else if (currentKey) {
+			vscode.window.showInformationMessage('API key unchanged (already configured)');
+		} else {
+			vscode.window.showWarningMessage('No API key was set');
+		}
+	}
+}
+
+// Function to configure a custom OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, internal gateways)
+async function configureCustomProvider() {
+	const config = vscode.workspace.getConfiguration('superdesign');
+
+	const baseUrl = await vscode.window.showInputBox({
+		title: 'Configure Custom Endpoint (1/4)',
+		prompt: 'Enter the base URL of your OpenAI-compatible endpoint',
+		value: config.get<string>('customBaseUrl') || 'http://localhost:11434/v1',
+		placeHolder: 'http://localhost:11434/v1',
+		ignoreFocusOut: true,
+		validateInput: (value) => {
+			if (!/^https?:\/\/.+/.test(value.trim())) {
+				return 'Base URL must start with http:// or https://';
+			}
+			return null;
+		}
+	});
+	if (baseUrl === undefined) {
+		return;
+	}
+
+	const currentKey = await ApiKeyStore.get('customApiKey');
+	const apiKey = await vscode.window.showInputBox({
+		title: 'Configure Custom Endpoint (2/4)',
+		prompt: 'Enter the API key for this endpoint (leave empty if none is required)',
+		value: currentKey ? '••••••••••••••••' : '',
+		password: true,
+		ignoreFocusOut: true
+	});
+	if (apiKey === undefined) {
+		return;
+	}
+
+	const modelName = await vscode.window.showInputBox({
+		title: 'Configure Custom Endpoint (3/4)',
+		prompt: 'Enter the model name as expected by the endpoint',
+		placeHolder: 'llama3.1',
+		ignoreFocusOut: true,
+		validateInput: (value) => value.trim().length === 0 ? 'Model name cannot be empty' : null
+	});
+	if (modelName === undefined) {
+		return;
+	}
+
+	const capabilityPicks = await vscode.window.showQuickPick(
+		[
+			{ label: 'Tool calling', description: 'Model can call tools to read and write design files', picked: true, capability: 'toolCalling' },
+			{ label: 'Vision', description: 'Model accepts image input', picked: false, capability: 'vision' }
+		],
+		{
+			title: 'Configure Custom Endpoint (4/4)',
+			placeHolder: 'Select what this model supports',
+			canPickMany: true,
+			ignoreFocusOut: true
+		}
+	);
+	if (capabilityPicks === undefined) {
+		return;
+	}
+
+	try {
+		const name = modelName.trim();
+		const capabilities = new Set(capabilityPicks.map(pick => pick.capability));
+		const customModels = getCustomModels().filter(model => model.name !== name);
+		customModels.push({
+			name,
+			toolCalling: capabilities.has('toolCalling'),
+			vision: capabilities.has('vision')
+		});
+
+		await config.update('customBaseUrl', baseUrl.trim(), vscode.ConfigurationTarget.Global);
+		if (apiKey.trim()) {
+			if (apiKey !== '••••••••••••••••') {
+				await ApiKeyStore.set('customApiKey', apiKey.trim());
+			}
+		} else {
+			await ApiKeyStore.delete('customApiKey');
+		}
+		await config.update('customModels', customModels, vscode.ConfigurationTarget.Global);
+		await config.update('aiModelProvider', 'custom', vscode.ConfigurationTarget.Global);
+		await config.update('aiModel', `${CUSTOM_MODEL_PREFIX}${name}`, vscode.ConfigurationTarget.Global);
+
+		vscode.window.showInformationMessage(`✅ Custom endpoint configured, now using ${name}`);
+	} catch (error) {
+		vscode.window.showErrorMessage(`Failed to save custom endpoint: ${error}`);
+	}
+}
+
+// Function to replay a recorded or hand-written transcript instead of calling a provider
+async function selectScriptedTranscript() {
+	const browseLabel = '$(folder-opened) Browse...';
+	const picks = [
+		...listTranscripts().map(({ name, bundled }) => ({ label: name, description: bundled ? 'Bundled with Superdesign' : '.superdesign/transcripts' })),
+		{ label: browseLabel, description: 'Pick a .jsonl transcript anywhere on disk' }
+	];
+
+	const pick = await vscode.window.showQuickPick(picks, {
+		title: 'Select Scripted Transcript',
+		placeHolder: 'The agent will replay this transcript offline, no API key needed',
+		ignoreFocusOut: true
+	});
+	if (!pick) {
+		return;
+	}
+
+	let transcript = pick.label;
+	if (pick.label === browseLabel) {
+		const files = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			openLabel: 'Replay Transcript',
+			filters: { 'Transcripts': ['jsonl'] }
+		});
+		if (!files || files.length === 0) {
+			return;
+		}
+		transcript = files[0].fsPath;
+	}
+
+	try {
+		const config = vscode.workspace.getConfiguration('superdesign');
+		await config.update('aiModelProvider', 'scripted', vscode.ConfigurationTarget.Global);
+		await config.update('aiModel', `${SCRIPTED_MODEL_PREFIX}${transcript}`, vscode.ConfigurationTarget.Global);
+
+		vscode.window.showInformationMessage(`✅ Replaying scripted transcript ${path.basename(transcript)}`);
+	} catch (error) {
+		vscode.window.showErrorMessage(`Failed to select scripted transcript: ${error}`);
+	}
+}
+
 class SuperdesignCanvasPanel {
 	public static currentPanel: SuperdesignCanvasPanel | undefined;
 	public static readonly viewType = 'superdesignCanvasPanel';
@@ -1881,27 +1752,6 @@ function getNonce() {
     return text;
 }
 
-// 👇 Added Groq API key configuration command
-export function activate(context: vscode.ExtensionContext) {
-    // ... your other activate logic
-
-    const configureGroqApiKey = vscode.commands.registerCommand('superdesign.configureGroqApiKey', async () => {
-        const apiKey = await vscode.window.showInputBox({
-            prompt: 'Enter your Groq API Key',
-            ignoreFocusOut: true,
-            password: true
-        });
-
-        if (apiKey) {
-            const config = vscode.workspace.getConfiguration('superdesign');
-            await config.update('groqApiKey', apiKey, vscode.ConfigurationTarget.Global);
-            vscode.window.showInformationMessage('Groq API Key saved!');
-        }
-    });
-
-    context.subscriptions.push(configureGroqApiKey);
-}
-
 // This method is called when your extension is deactivated
 export function deactivate() {
     Logger.dispose();
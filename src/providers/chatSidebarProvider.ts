@@ -1,14 +1,21 @@
 import * as vscode from 'vscode';
 import { ClaudeCodeService } from '../services/claudeCodeService';
 import { ChatMessageService } from '../services/chatMessageService';
+import { SessionStore, isValidSessionId } from '../services/sessionStore';
+import { Logger } from '../services/logger';
+import { loadSlashCommands } from '../services/slashCommands';
+import { searchMentionCandidates, readMentionedFiles } from '../services/workspaceMentions';
 import { generateWebviewHtml } from '../templates/webviewTemplate';
 import { WebviewContext } from '../types/context';
 import { AgentService } from '../types/agent';
+import { resolveActiveProvider, getProviderForModel, hasProviderApiKey, getProviderEndpoint, getImageLimits, ProviderDefinition } from '../services/providerRegistry';
+import { getModelCatalog, getModelPreferences, toggleModelPinned, toggleModelHidden } from '../services/modelCatalog';
 
 export class ChatSidebarProvider implements vscode.WebviewViewProvider {
     public static readonly VIEW_TYPE = 'superdesign.chatView';
     private _view?: vscode.WebviewView;
     private messageHandler: ChatMessageService;
+    private sessionStore = new SessionStore();
     private customMessageHandler?: (message: any) => void;
 
     constructor(
@@ -55,6 +62,14 @@ export class ChatSidebarProvider implements vscode.WebviewViewProvider {
             webviewContext
         );
 
+        // Keep the model selector in sync when provider settings change (e.g. a custom endpoint is configured)
+        const configListener = vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('superdesign')) {
+                this.handleGetCurrentProvider(webviewView.webview);
+            }
+        });
+        webviewView.onDidDispose(() => configListener.dispose());
+
         webviewView.webview.onDidReceiveMessage(
             async (message) => {
                 if (this.customMessageHandler) {
@@ -65,6 +80,40 @@ export class ChatSidebarProvider implements vscode.WebviewViewProvider {
                     case 'chatMessage':
                         await this.messageHandler.handleChatMessage(message, webviewView.webview);
                         break;
+                    case 'chatVariations':
+                        await this.messageHandler.handleVariationRequest(message, webviewView.webview);
+                        break;
+                    case 'toolApprovalResponse':
+                        this.messageHandler.handleToolApprovalResponse(message);
+                        break;
+                    case 'loadSession':
+                        await this.handleLoadSession(webviewView.webview);
+                        break;
+                    case 'saveSession':
+                        await this.handleSaveSession(message);
+                        break;
+                    case 'getSlashCommands':
+                        await this.handleGetSlashCommands(webviewView.webview);
+                        break;
+                    case 'searchMentions':
+                        await this.handleSearchMentions(message.query || '', webviewView.webview);
+                        break;
+                    case 'readMentions':
+                        webviewView.webview.postMessage({
+                            command: 'mentionsContent',
+                            requestId: message.requestId,
+                            files: await readMentionedFiles(Array.isArray(message.paths) ? message.paths : [])
+                        });
+                        break;
+                    case 'listSessions':
+                        await this.handleListSessions(webviewView.webview);
+                        break;
+                    case 'switchSession':
+                        await this.handleSwitchSession(message.sessionId, webviewView.webview);
+                        break;
+                    case 'forkSession':
+                        await this.handleForkSession(message, webviewView.webview);
+                        break;
                     case 'stopChat':
                         await this.messageHandler.stopCurrentChat(webviewView.webview);
                         break;
@@ -83,77 +132,144 @@ export class ChatSidebarProvider implements vscode.WebviewViewProvider {
                     case 'changeProvider':
                         await this.handleChangeProvider(message.model, webviewView.webview);
                         break;
+                    case 'toggleModelPinned':
+                        // The configuration listener sends the updated catalog back
+                        await toggleModelPinned(message.model);
+                        break;
+                    case 'toggleModelHidden':
+                        await toggleModelHidden(message.model);
+                        break;
                 }
             }
         );
     }
 
-    private async handleGetCurrentProvider(webview: vscode.Webview) {
-        const config = vscode.workspace.getConfiguration('superdesign');
-        const currentProvider = config.get<string>('aiModelProvider', 'anthropic');
-        const currentModel = config.get<string>('aiModel');
-
-        let defaultModel: string;
-        switch (currentProvider) {
-            case 'openai':
-                defaultModel = 'gpt-4o';
-                break;
-            case 'openrouter':
-                defaultModel = 'anthropic/claude-3-7-sonnet-20250219';
-                break;
-            case 'groq':
-                defaultModel = 'llama3-70b-8192'; // 👈 Groq default
-                break;
-            case 'anthropic':
-            default:
-                defaultModel = 'claude-3-5-sonnet-20241022';
-                break;
+    // Resume the most recently updated session. Without one the webview keeps the
+    // history it has cached and saves it under the new session id.
+    private async handleLoadSession(webview: vscode.Webview) {
+        try {
+            const latest = await this.sessionStore.getLatestSession();
+            if (latest) {
+                Logger.info(`Resuming session ${latest.info.id} (${latest.info.messageCount} messages)`);
+                webview.postMessage({ command: 'sessionLoaded', sessionId: latest.info.id, messages: latest.messages });
+                return;
+            }
+        } catch (error) {
+            Logger.warn(`Failed to load the last session: ${error}`);
+        }
+        webview.postMessage({ command: 'sessionLoaded', sessionId: `session_${Date.now()}`, messages: null });
+    }
+
+    private async handleSaveSession(message: any) {
+        if (!isValidSessionId(message.sessionId) || !Array.isArray(message.messages)) {
+            Logger.warn('Ignoring saveSession without a valid session id and messages');
+            return;
+        }
+        try {
+            await this.sessionStore.saveSession(message.sessionId, message.messages);
+        } catch (error) {
+            Logger.warn(`Failed to save session ${message.sessionId}: ${error}`);
+        }
+    }
+
+    // Read on every request so edits to .superdesign/commands show up without a reload
+    private async handleGetSlashCommands(webview: vscode.Webview) {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        webview.postMessage({ command: 'slashCommandsResponse', commands: await loadSlashCommands(workspaceRoot) });
+    }
+
+    private async handleSearchMentions(query: string, webview: vscode.Webview) {
+        try {
+            webview.postMessage({ command: 'mentionCandidates', query, candidates: await searchMentionCandidates(query) });
+        } catch (error) {
+            Logger.warn(`Failed to search workspace files: ${error}`);
+            webview.postMessage({ command: 'mentionCandidates', query, candidates: [] });
+        }
+    }
+
+    private async handleListSessions(webview: vscode.Webview) {
+        try {
+            webview.postMessage({ command: 'sessionList', sessions: await this.sessionStore.listSessions() });
+        } catch (error) {
+            Logger.warn(`Failed to list sessions: ${error}`);
+            webview.postMessage({ command: 'sessionList', sessions: [] });
+        }
+    }
+
+    private async handleSwitchSession(sessionId: string, webview: vscode.Webview) {
+        const session = isValidSessionId(sessionId) ? await this.sessionStore.loadSession(sessionId) : undefined;
+        if (!session) {
+            webview.postMessage({ command: 'chatError', error: `Session ${sessionId} could not be found.` });
+            return;
+        }
+        webview.postMessage({ command: 'sessionLoaded', sessionId: session.info.id, messages: session.messages });
+    }
+
+    // The webview sends the messages up to the branch point, they become a new session
+    private async handleForkSession(message: any, webview: vscode.Webview) {
+        if (!isValidSessionId(message.parentId) || !Array.isArray(message.messages)) {
+            Logger.warn('Ignoring forkSession without a valid parent session and messages');
+            return;
         }
+        try {
+            const info = await this.sessionStore.forkSession(message.parentId, message.messages);
+            Logger.info(`Branched session ${info.id} from ${message.parentId} at ${info.messageCount} messages`);
+            webview.postMessage({ command: 'sessionLoaded', sessionId: info.id, messages: message.messages });
+        } catch (error) {
+            webview.postMessage({ command: 'chatError', error: `Failed to branch the conversation: ${error instanceof Error ? error.message : error}` });
+        }
+    }
+
+    private async handleGetCurrentProvider(webview: vscode.Webview) {
+        const { provider, model } = resolveActiveProvider();
+        const preferences = getModelPreferences();
 
         webview.postMessage({
             command: 'currentProviderResponse',
-            provider: currentProvider,
-            model: currentModel || defaultModel
+            provider: provider.id,
+            model: model,
+            endpoint: this.getEndpointInfo(provider),
+            imageLimits: getImageLimits(provider),
+            models: this.getModelOptions(),
+            pinnedModels: preferences.pinned,
+            hiddenModels: preferences.hidden
         });
     }
 
+    // Headers are left out on purpose, they may contain proxy credentials.
+    // Offline providers have no endpoint to show.
+    private getEndpointInfo(provider: ProviderDefinition) {
+        const endpoint = getProviderEndpoint(provider);
+        if (!endpoint.baseUrl) {
+            return null;
+        }
+        return { baseUrl: endpoint.baseUrl, isOverride: endpoint.isOverride };
+    }
+
+    // Catalog entries in the shape ModelSelector renders
+    private getModelOptions() {
+        return getModelCatalog().map(entry => ({
+            id: entry.id,
+            name: entry.name,
+            provider: entry.providerLabel || entry.provider,
+            category: entry.category,
+            contextWindow: entry.contextWindow,
+            vision: entry.vision,
+            toolCalling: entry.toolCalling,
+            price: entry.price
+        }));
+    }
+
     private async handleChangeProvider(model: string, webview: vscode.Webview) {
         try {
             const config = vscode.workspace.getConfiguration('superdesign');
+            const provider = getProviderForModel(model);
+            const displayName = `${provider.displayName} (${model})`;
 
-            let provider: string;
-            let apiKeyKey: string;
-            let configureCommand: string;
-            let displayName: string;
-
-            if (model.includes('/')) {
-                provider = 'openrouter';
-                apiKeyKey = 'openrouterApiKey';
-                configureCommand = 'superdesign.configureOpenRouterApiKey';
-                displayName = `OpenRouter (${this.getModelDisplayName(model)})`;
-            } else if (model.startsWith('claude-')) {
-                provider = 'anthropic';
-                apiKeyKey = 'anthropicApiKey';
-                configureCommand = 'superdesign.configureApiKey';
-                displayName = `Anthropic (${this.getModelDisplayName(model)})`;
-            } else if (model.startsWith('llama') || model.startsWith('mixtral')) {
-                provider = 'groq'; // 👈 added Groq
-                apiKeyKey = 'groqApiKey';
-                configureCommand = 'superdesign.configureGroqApiKey';
-                displayName = `Groq (${this.getModelDisplayName(model)})`;
-            } else {
-                provider = 'openai';
-                apiKeyKey = 'openaiApiKey';
-                configureCommand = 'superdesign.configureOpenAIApiKey';
-                displayName = `OpenAI (${this.getModelDisplayName(model)})`;
-            }
-
-            await config.update('aiModelProvider', provider, vscode.ConfigurationTarget.Global);
+            await config.update('aiModelProvider', provider.id, vscode.ConfigurationTarget.Global);
             await config.update('aiModel', model, vscode.ConfigurationTarget.Global);
 
-            const apiKey = config.get<string>(apiKeyKey);
-
-            if (!apiKey) {
+            if (!(await hasProviderApiKey(provider))) {
                 const result = await vscode.window.showWarningMessage(
                     `${displayName} selected, but API key is not configured. Would you like to configure it now?`,
                     'Configure API Key',
@@ -161,31 +277,20 @@ export class ChatSidebarProvider implements vscode.WebviewViewProvider {
                 );
 
                 if (result === 'Configure API Key') {
-                    await vscode.commands.executeCommand(configureCommand);
+                    await vscode.commands.executeCommand(provider.configureCommand);
                 }
             }
 
             webview.postMessage({
                 command: 'providerChanged',
-                provider: provider,
-                model: model
+                provider: provider.id,
+                model: model,
+                endpoint: this.getEndpointInfo(provider),
+                imageLimits: getImageLimits(provider)
             });
 
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to update AI model: ${error}`);
         }
     }
-
-    private getModelDisplayName(model: string): string {
-        const modelNames: { [key: string]: string } = {
-            // existing…
-
-            // 👇 Groq models
-            'llama3-70b-8192': 'Llama 3 70B (Groq)',
-            'llama3-8b-8192': 'Llama 3 8B (Groq)',
-            'mixtral-8x7b-32768': 'Mixtral 8x7B (Groq)'
-        };
-
-        return modelNames[model] || model;
-    }
 }
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { CoreMessage } from 'ai';
+import { AgentService, AgentStreamEvent } from '../types/agent';
+import { DesignCritique } from './designCritic';
+import { StepUsage } from './usageTracker';
+import { CustomAgentService } from './customAgentService';
+import { ClaudeCodeService } from './claudeCodeService';
+import { Logger } from './logger';
+
+export type AgentBackendId = 'custom' | 'claude-code';
+
+export function getAgentBackendId(): AgentBackendId {
+    const backend = vscode.workspace.getConfiguration('superdesign').get<string>('agentBackend', 'custom');
+    return backend === 'claude-code' ? 'claude-code' : 'custom';
+}
+
+/**
+ * AgentService that forwards each call to the backend selected by
+ * superdesign.agentBackend. The setting is read per call, so switching
+ * backends takes effect on the next message without a reload.
+ */
+export class AgentBackendRouter implements AgentService {
+    // Created on first use; it loads the Claude Code SDK and needs an Anthropic key
+    private claudeCodeService?: ClaudeCodeService;
+
+    constructor(
+        private customAgentService: CustomAgentService,
+        private outputChannel: vscode.OutputChannel
+    ) {}
+
+    private getBackend(): AgentService {
+        if (getAgentBackendId() === 'claude-code') {
+            if (!this.claudeCodeService) {
+                Logger.info('Creating ClaudeCodeService for the claude-code agent backend');
+                this.claudeCodeService = new ClaudeCodeService(this.outputChannel);
+            }
+            return this.claudeCodeService;
+        }
+        return this.customAgentService;
+    }
+
+    query(
+        prompt?: string,
+        messages?: CoreMessage[],
+        options?: any,
+        abortController?: AbortController,
+        onMessage?: (event: AgentStreamEvent) => void
+    ): Promise<AgentStreamEvent[]> {
+        const backend = this.getBackend();
+        Logger.info(`Routing query to the ${getAgentBackendId()} agent backend`);
+        // Tool approval gates the built-in agent's tools. Claude Code can't ask, it gets its
+        // allowed and disallowed tools from the same policies instead.
+        const backendOptions = backend === this.customAgentService ? options : undefined;
+        return backend.query(prompt, messages, backendOptions, abortController, onMessage);
+    }
+
+    // The critic runs on the configured provider whichever backend wrote the design
+    critiqueDesign(filePath: string, abortController?: AbortController): Promise<{ critique: DesignCritique; usage?: StepUsage }> {
+        return this.customAgentService.critiqueDesign(filePath, abortController);
+    }
+
+    hasApiKey(): Promise<boolean> {
+        return this.getBackend().hasApiKey();
+    }
+
+    isApiKeyAuthError(errorMessage: string): boolean {
+        return this.getBackend().isApiKeyAuthError(errorMessage);
+    }
+}
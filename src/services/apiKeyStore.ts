@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+/**
+ * Provider API keys, kept in VS Code SecretStorage instead of settings.json.
+ * Keys are addressed by their legacy setting name (e.g. 'anthropicApiKey').
+ */
+export class ApiKeyStore {
+    private static secrets: vscode.SecretStorage | undefined;
+    private static migration: Promise<void> = Promise.resolve();
+
+    public static initialize(secrets: vscode.SecretStorage) {
+        this.secrets = secrets;
+    }
+
+    private static getSecrets(): vscode.SecretStorage {
+        if (!this.secrets) {
+            throw new Error('ApiKeyStore used before initialization');
+        }
+        return this.secrets;
+    }
+
+    private static secretKey(settingKey: string): string {
+        return `superdesign.${settingKey}`;
+    }
+
+    public static async get(settingKey: string): Promise<string | undefined> {
+        // Don't report a key as missing while it is still being moved out of settings
+        await this.migration;
+        const value = await this.getSecrets().get(this.secretKey(settingKey));
+        return value && value.trim().length > 0 ? value : undefined;
+    }
+
+    public static async has(settingKey: string): Promise<boolean> {
+        return !!(await this.get(settingKey));
+    }
+
+    public static async set(settingKey: string, value: string): Promise<void> {
+        await this.getSecrets().store(this.secretKey(settingKey), value);
+    }
+
+    public static async delete(settingKey: string): Promise<void> {
+        await this.getSecrets().delete(this.secretKey(settingKey));
+    }
+
+    /**
+     * Move API keys still stored in plain superdesign.* settings into secret storage,
+     * then clear them from every settings scope they were found in.
+     */
+    public static migrateFromSettings(settingKeys: string[]): Promise<void> {
+        this.migration = this.runMigration(settingKeys);
+        return this.migration;
+    }
+
+    private static async runMigration(settingKeys: string[]): Promise<void> {
+        const config = vscode.workspace.getConfiguration('superdesign');
+
+        for (const settingKey of settingKeys) {
+            const inspected = config.inspect<string>(settingKey);
+            if (!inspected) {
+                continue;
+            }
+
+            const scopedValues: [vscode.ConfigurationTarget, string | undefined][] = [
+                [vscode.ConfigurationTarget.Workspace, inspected.workspaceValue],
+                [vscode.ConfigurationTarget.Global, inspected.globalValue]
+            ];
+
+            // Most specific scope wins, matching how the setting was resolved before
+            const value = scopedValues.find(([, scopedValue]) => !!scopedValue?.trim())?.[1];
+            if (!value) {
+                continue;
+            }
+
+            try {
+                await this.set(settingKey, value.trim());
+                for (const [target, scopedValue] of scopedValues) {
+                    if (scopedValue !== undefined) {
+                        await config.update(settingKey, undefined, target);
+                    }
+                }
+                Logger.info(`Migrated ${settingKey} from settings to secret storage`);
+            } catch (error) {
+                Logger.error(`Failed to migrate ${settingKey} to secret storage: ${error}`);
+            }
+        }
+    }
+}
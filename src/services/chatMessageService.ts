@@ -1,11 +1,40 @@
 import * as vscode from 'vscode';
-import { ClaudeCodeService } from './claudeCodeService';
-import { AgentService } from '../types/agent';
+import * as path from 'path';
+import * as fs from 'fs';
+import { AgentService, AgentStreamEvent, AgentQueryOptions } from '../types/agent';
 import { CoreMessage } from 'ai';
 import { Logger } from './logger';
+import { resolveActiveProvider, getProvider } from './providerRegistry';
+import { getAgentBackendId } from './agentBackend';
+import { compactHistory, CompactionResult } from './historyCompactor';
+import { planVariations, buildVariationInstructions, clampVariationCount, VariationPlan } from './variationPlanner';
+import { isDesignCriticEnabled, isDesignFile } from './designCritic';
+import { ToolApprovalDecision, ToolApprovalRequest } from './toolApproval';
+
+// Tools whose file_path argument is a file the agent wrote (Claude Code capitalizes them)
+const FILE_WRITING_TOOLS = ['write', 'edit', 'multiedit'];
+
+type VariationStatus = 'done' | 'error' | 'cancelled';
+
+function appendToLatestUserMessage(messages: CoreMessage[], text: string): CoreMessage[] {
+    const index = messages.map(message => message.role).lastIndexOf('user');
+    if (index === -1) {
+        return [...messages, { role: 'user', content: text }];
+    }
+
+    const latest = messages[index];
+    const content = typeof latest.content === 'string'
+        ? `${latest.content}\n\n${text}`
+        : [...latest.content, { type: 'text' as const, text }];
+    return [...messages.slice(0, index), { ...latest, content } as CoreMessage, ...messages.slice(index + 1)];
+}
 
 export class ChatMessageService {
     private currentRequestController?: AbortController;
+    // Approval cards waiting for the user, by approval id
+    private pendingApprovals = new Map<string, (decision: ToolApprovalDecision) => void>();
+    // Tools the user chose "always allow" for, until the window is reloaded
+    private sessionApprovedTools = new Set<string>();
 
     constructor(
         private agentService: AgentService,
@@ -14,7 +43,8 @@ export class ChatMessageService {
 
     async handleChatMessage(message: any, webview: vscode.Webview): Promise<void> {
         try {
-            const chatHistory: CoreMessage[] = message.chatHistory || [];
+            const compaction = compactHistory(message.chatHistory || [], resolveActiveProvider().model);
+            const chatHistory: CoreMessage[] = compaction.messages;
             const latestMessage = message.message || '';
             const messageContent = message.messageContent || latestMessage;
             
@@ -40,6 +70,15 @@ export class ChatMessageService {
             // Create new AbortController for this request
             this.currentRequestController = new AbortController();
             
+            if (compaction.compacted) {
+                Logger.info(`Compacted chat history from ~${compaction.tokensBefore} to ~${compaction.tokensAfter} tokens (limit ${compaction.tokenLimit})`);
+                webview.postMessage({
+                    command: 'chatNotice',
+                    kind: 'compaction',
+                    content: this.describeCompaction(compaction)
+                });
+            }
+            
             // Send initial streaming start message
             webview.postMessage({
                 command: 'chatStreamStart'
@@ -67,20 +106,32 @@ export class ChatMessageService {
             
             this.outputChannel.appendLine('=== END CHAT HISTORY DEBUG ===');
             
+            // Design files this turn wrote successfully, for the critic pass
+            const pendingWrites = new Map<string, string>();
+            const writtenDesigns = new Set<string>();
+            const onEvent = (event: AgentStreamEvent) => {
+                if (event.type === 'tool-call' && FILE_WRITING_TOOLS.includes(event.toolName.toLowerCase()) && isDesignFile(event.args?.file_path)) {
+                    pendingWrites.set(event.toolCallId, event.args.file_path);
+                } else if (event.type === 'tool-result' && !event.isError && pendingWrites.has(event.toolCallId)) {
+                    writtenDesigns.add(pendingWrites.get(event.toolCallId)!);
+                }
+                // Process and send each message as it arrives
+                this.handleStreamMessage(event, webview);
+            };
+
+            const queryOptions = this.createQueryOptions(this.currentRequestController, webview, message.sessionId);
+
             // Use conversation history or single prompt
-            let response: any[];
+            let response: AgentStreamEvent[];
             if (chatHistory.length > 0) {
                 // Use conversation history - CoreMessage format is already compatible
                 this.outputChannel.appendLine(`Using conversation history with ${chatHistory.length} messages`);
                 response = await this.agentService.query(
                     undefined, // no prompt 
                     chatHistory, // use CoreMessage array directly
-                    undefined, 
+                    queryOptions,
                     this.currentRequestController,
-                    (streamMessage: any) => {
-                        // Process and send each message as it arrives
-                        this.handleStreamMessage(streamMessage, webview);
-                    }
+                    onEvent
                 );
             } else {
                 // Fallback to single prompt for first message
@@ -88,12 +139,9 @@ export class ChatMessageService {
                 response = await this.agentService.query(
                     latestMessage, // use latest message as prompt
                     undefined, // no messages array
-                    undefined, 
+                    queryOptions,
                     this.currentRequestController,
-                    (streamMessage: any) => {
-                        // Process and send each message as it arrives
-                        this.handleStreamMessage(streamMessage, webview);
-                    }
+                    onEvent
                 );
             }
 
@@ -103,7 +151,11 @@ export class ChatMessageService {
                 return;
             }
 
-            Logger.info(`Agent response completed with ${response.length} total messages`);
+            Logger.info(`Agent response completed with ${response.length} events`);
+
+            if (writtenDesigns.size > 0 && isDesignCriticEnabled()) {
+                await this.reviewDesigns(Array.from(writtenDesigns), this.currentRequestController, webview);
+            }
 
             // Send stream end message
             webview.postMessage({
@@ -126,43 +178,14 @@ export class ChatMessageService {
             // Check if this is an API key authentication error or process failure
             const errorMessage = error instanceof Error ? error.message : String(error);
             Logger.error(`Processing error message: "${errorMessage}"`);
-            if (this.agentService.isApiKeyAuthError(errorMessage) || !this.agentService.hasApiKey()) {
-                // Determine which provider is currently selected to show specific error
-                const config = vscode.workspace.getConfiguration('superdesign');
-                const specificModel = config.get<string>('aiModel');
-                const provider = config.get<string>('aiModelProvider', 'anthropic');
-                
-                // Determine provider from model name if specific model is set
-                let effectiveProvider = provider;
-                let providerName = 'AI';
-                let configureCommand = 'superdesign.configureApiKey';
-                
-                if (specificModel) {
-                    if (specificModel.includes('/')) {
-                        effectiveProvider = 'openrouter';
-                    } else if (specificModel.startsWith('claude-')) {
-                        effectiveProvider = 'anthropic';
-                    } else {
-                        effectiveProvider = 'openai';
-                    }
-                }
-                
-                switch (effectiveProvider) {
-                    case 'openrouter':
-                        providerName = 'OpenRouter';
-                        configureCommand = 'superdesign.configureOpenRouterApiKey';
-                        break;
-                    case 'anthropic':
-                        providerName = 'Anthropic';
-                        configureCommand = 'superdesign.configureApiKey';
-                        break;
-                    case 'openai':
-                        providerName = 'OpenAI';
-                        configureCommand = 'superdesign.configureOpenAIApiKey';
-                        break;
-                }
+            if (this.agentService.isApiKeyAuthError(errorMessage) || !(await this.agentService.hasApiKey())) {
+                // Determine which provider is currently selected to show specific error.
+                // The Claude Code backend always runs on Anthropic.
+                const provider = getAgentBackendId() === 'claude-code' ? getProvider('anthropic') : resolveActiveProvider().provider;
+                const providerName = provider.displayName;
+                const configureCommand = provider.configureCommand;
                 
-                const hasApiKey = this.agentService.hasApiKey();
+                const hasApiKey = await this.agentService.hasApiKey();
                 const displayMessage = hasApiKey ? 
                     `Invalid ${providerName} API key. Please check your configuration.` : 
                     `${providerName} API key not configured. Please set up your API key to use this AI model.`;
@@ -189,194 +212,338 @@ export class ChatMessageService {
         }
     }
 
-    private handleStreamMessage(message: CoreMessage, webview: vscode.Webview): void {
-        Logger.debug(`Handling CoreMessage: ${JSON.stringify(message, null, 2)}`);
-        
-        // Check if this is an update to existing message
-        const isUpdate = (message as any)._isUpdate;
-        const updateToolId = (message as any)._updateToolId;
-        
-        // Handle assistant messages
-        if (message.role === 'assistant') {
-            if (typeof message.content === 'string') {
-                // Simple text content
-                if (message.content.trim()) {
-                    webview.postMessage({
-                        command: 'chatResponseChunk',
-                        messageType: 'assistant',
-                        content: message.content,
-                        metadata: {}
-                    });
+    /**
+     * Tool approvals are asked through an inline card in the chat. The tool call
+     * waits until the user answers; stopping the request denies it.
+     */
+    private createQueryOptions(controller: AbortController, webview: vscode.Webview, sessionId?: string): AgentQueryOptions {
+        return {
+            sessionId,
+            requestToolApproval: (request: ToolApprovalRequest) => {
+                if (this.sessionApprovedTools.has(request.toolName)) {
+                    return Promise.resolve('approve');
                 }
-            } else if (Array.isArray(message.content)) {
-                // Handle assistant content array (text parts, tool calls, etc.)
-                for (const part of message.content) {
-                    if (part.type === 'text' && (part as any).text) {
-                        // Send text content
-                        webview.postMessage({
-                            command: 'chatResponseChunk',
-                            messageType: 'assistant',
-                            content: (part as any).text,
-                            metadata: {}
-                        });
-                    } else if (part.type === 'tool-call') {
-                        // Send tool call or update
-                        const toolPart = part as any;
-                        const command = isUpdate ? 'chatToolUpdate' : 'chatResponseChunk';
-                        const messageType = isUpdate ? undefined : 'tool-call';
-                        
-                        if (isUpdate) {
-                            // Send tool parameter update
-                            webview.postMessage({
-                                command: 'chatToolUpdate',
-                                tool_use_id: toolPart.toolCallId,
-                                tool_input: toolPart.args
-                            });
-                        } else {
-                            // Send new tool call message
-                            webview.postMessage({
-                                command: 'chatResponseChunk',
-                                messageType: 'tool-call',
-                                content: '',
-                                metadata: {
-                                    tool_name: toolPart.toolName,
-                                    tool_id: toolPart.toolCallId,
-                                    tool_input: toolPart.args
-                                }
-                            });
-                        }
-                    }
+                if (controller.signal.aborted) {
+                    return Promise.resolve('deny');
                 }
-            }
-        }
-        
-        // Handle tool messages (CoreToolMessage)
-        if (message.role === 'tool' && Array.isArray(message.content)) {
-            for (const toolResultPart of message.content) {
-                if (toolResultPart.type === 'tool-result') {
-                    const part = toolResultPart as any;
-                    const content = typeof part.result === 'string' ? 
-                        part.result : 
-                        JSON.stringify(part.result, null, 2);
-                    
-                    Logger.debug(`Tool result for ${part.toolCallId}: "${content.substring(0, 200)}..."`);
-                    
-                    // Send tool result to frontend
-                    webview.postMessage({
-                        command: 'chatResponseChunk',
-                        messageType: 'tool-result',
-                        content: content,
-                        metadata: {
-                            tool_id: part.toolCallId,
-                            tool_name: part.toolName,
-                            is_error: part.isError || false
+
+                const approvalId = `approval_${request.toolCallId}`;
+                Logger.info(`Asking for approval: ${request.reason}`);
+                return new Promise<ToolApprovalDecision>(resolve => {
+                    const onAbort = () => {
+                        this.pendingApprovals.delete(approvalId);
+                        webview.postMessage({ command: 'toolApprovalResolved', approvalId, decision: 'deny' });
+                        resolve('deny');
+                    };
+                    controller.signal.addEventListener('abort', onAbort, { once: true });
+
+                    this.pendingApprovals.set(approvalId, decision => {
+                        controller.signal.removeEventListener('abort', onAbort);
+                        this.pendingApprovals.delete(approvalId);
+                        if (decision === 'always') {
+                            this.sessionApprovedTools.add(request.toolName);
                         }
+                        resolve(decision);
                     });
-                    
-                    // Also send completion signal
+
                     webview.postMessage({
-                        command: 'chatToolResult',
-                        tool_use_id: part.toolCallId,
-                        content: content,
-                        is_error: part.isError || false
+                        command: 'toolApprovalRequest',
+                        approvalId,
+                        toolCallId: request.toolCallId,
+                        toolName: request.toolName,
+                        args: request.args,
+                        reason: request.reason
                     });
-                }
-            }
-        }
-        
-        // Handle user messages
-        if (message.role === 'user') {
-            if (typeof message.content === 'string' && message.content.trim()) {
-                webview.postMessage({
-                    command: 'chatResponseChunk',
-                    messageType: 'user',
-                    content: message.content,
-                    metadata: {}
                 });
             }
+        };
+    }
+
+    handleToolApprovalResponse(message: any): void {
+        const resolve = this.pendingApprovals.get(message.approvalId);
+        if (!resolve) {
+            Logger.warn(`No pending tool approval ${message.approvalId}`);
+            return;
         }
-        
-        // Skip other message types (system, etc.)
+
+        const decision: ToolApprovalDecision = message.decision === 'approve' || message.decision === 'always' ? message.decision : 'deny';
+        Logger.info(`Tool approval ${message.approvalId}: ${decision}`);
+        resolve(decision);
     }
 
-    // Legacy handler for backward compatibility
-    private handleLegacyResultMessage(message: any, webview: vscode.Webview): void {
-        if (message.type === 'result') {
-            Logger.debug(`Result message structure: ${JSON.stringify(message, null, 2)}`);
-            
-            // Skip error result messages that contain raw API key errors - these are handled by our custom error handler
-            if (message.is_error) {
-                // Check if this is an API key related error in any field
-                const messageStr = JSON.stringify(message).toLowerCase();
-                if (messageStr.includes('api key') || messageStr.includes('authentication') || 
-                    messageStr.includes('unauthorized') || messageStr.includes('anthropic') ||
-                    messageStr.includes('process exited') || messageStr.includes('exit code')) {
-                    Logger.debug('Skipping raw API key error result message - handled by custom error handler');
-                    return;
-                }
+    /**
+     * Critic pass over the designs a turn produced. Each review is posted as a
+     * critique card; a failed review is reported on its card, not as a chat error.
+     */
+    private async reviewDesigns(files: string[], controller: AbortController, webview: vscode.Webview): Promise<void> {
+        if (!this.agentService.critiqueDesign) {
+            return;
+        }
+
+        for (const file of files) {
+            if (controller.signal.aborted) {
+                return;
             }
-            
-            // Skip final success result messages that are just summaries
-            if (message.subtype === 'success' && message.result && typeof message.result === 'string') {
-                const resultText = message.result.toLowerCase();
-                // Skip if it looks like a final summary (contains phrases like "successfully created", "perfect", etc.)
-                if (resultText.includes('successfully') || resultText.includes('perfect') || 
-                    resultText.includes('created') || resultText.includes('variations')) {
-                    Logger.debug('Skipping final summary result message');
-                    return;
+
+            const critiqueId = `critique_${Date.now()}_${path.basename(file)}`;
+            webview.postMessage({ command: 'designCritiqueStart', critiqueId, file });
+            try {
+                const { critique, usage } = await this.agentService.critiqueDesign(file, controller);
+                if (usage) {
+                    this.handleStreamMessage({ type: 'usage', usage }, webview);
                 }
+                Logger.info(`Design critique for ${critique.file}: ${critique.checks.map(check => `${check.id} ${check.score}/10`).join(', ')}`);
+                webview.postMessage({ command: 'designCritiqueEnd', critiqueId, critique });
+            } catch (error) {
+                const errorMessage = controller.signal.aborted ? 'Review cancelled' : error instanceof Error ? error.message : String(error);
+                Logger.warn(`Design critique for ${file} failed: ${errorMessage}`);
+                webview.postMessage({ command: 'designCritiqueEnd', critiqueId, error: errorMessage });
             }
-            
-            let content = '';
-            let resultType = 'result';
-            let isError = false;
-            
-            if (typeof message.message === 'string') {
-                content = message.message;
-            } else if (message.content) {
-                content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
-            } else if (message.text) {
-                content = message.text;
-            } else if (message.result && typeof message.result === 'string') {
-                content = message.result;
-            } else {
-                // Skip messages that would result in raw JSON dump
-                Logger.debug('Skipping result message with no readable content');
+        }
+    }
+
+    /**
+     * Run one prompt as N concurrent agent queries, each with its own design
+     * direction and reserved output file, reported to the webview as one group
+     */
+    async handleVariationRequest(message: any, webview: vscode.Webview): Promise<void> {
+        if (getAgentBackendId() !== 'custom') {
+            webview.postMessage({
+                command: 'chatError',
+                error: 'Parallel variations need the built-in agent. Set superdesign.agentBackend to "custom" to use them.'
+            });
+            return;
+        }
+
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspaceRoot) {
+            webview.postMessage({ command: 'chatError', error: 'No workspace folder found. Please open a workspace first.' });
+            return;
+        }
+
+        const count = clampVariationCount(message.count);
+        const workingDirectory = path.join(workspaceRoot, '.superdesign');
+        const prompt: string = message.message || '';
+        const plans = planVariations(workingDirectory, prompt, count, message.contextFile);
+        const groupId = `variations_${Date.now()}`;
+
+        const compaction = compactHistory(message.chatHistory || [], resolveActiveProvider().model);
+        const history: CoreMessage[] = compaction.messages.length > 0
+            ? compaction.messages
+            : [{ role: 'user', content: prompt }];
+
+        Logger.info(`Generating ${count} variations: ${plans.map(plan => plan.outputFile).join(', ')}`);
+
+        // One controller for the whole group, so Stop cancels every run
+        this.currentRequestController = new AbortController();
+        const controller = this.currentRequestController;
+
+        webview.postMessage({ command: 'chatStreamStart' });
+        webview.postMessage({
+            command: 'variationStart',
+            groupId,
+            variations: plans.map(plan => ({ index: plan.index, direction: plan.direction, file: plan.outputFile }))
+        });
+
+        try {
+            const statuses = await Promise.all(plans.map(plan =>
+                this.runVariation(plan, count, history, workingDirectory, groupId, controller, webview, message.sessionId)
+            ));
+            Logger.info(`Variations finished: ${statuses.join(', ')}`);
+
+            if (controller.signal.aborted) {
+                webview.postMessage({ command: 'chatStopped' });
                 return;
             }
-            
-            // Determine result type and error status
-            if (message.subtype) {
-                if (message.subtype.includes('error')) {
-                    isError = true;
-                    resultType = 'error';
-                } else if (message.subtype === 'success') {
-                    resultType = 'success';
+            webview.postMessage({ command: 'chatStreamEnd' });
+        } finally {
+            this.currentRequestController = undefined;
+        }
+    }
+
+    private async runVariation(
+        plan: VariationPlan,
+        total: number,
+        history: CoreMessage[],
+        workingDirectory: string,
+        groupId: string,
+        controller: AbortController,
+        webview: vscode.Webview,
+        sessionId?: string
+    ): Promise<VariationStatus> {
+        const messages = appendToLatestUserMessage(history, buildVariationInstructions(plan, total));
+        let summary = '';
+        let error: string | undefined;
+        let steps = 0;
+
+        const postProgress = (activity: string) => webview.postMessage({
+            command: 'variationProgress',
+            groupId,
+            index: plan.index,
+            activity,
+            steps
+        });
+
+        try {
+            await this.agentService.query(undefined, messages, this.createQueryOptions(controller, webview, sessionId), controller, (event: AgentStreamEvent) => {
+                switch (event.type) {
+                    case 'text':
+                        summary += event.text;
+                        break;
+                    case 'tool-call':
+                        steps++;
+                        postProgress(event.toolName);
+                        break;
+                    case 'usage':
+                        this.handleStreamMessage(event, webview);
+                        break;
+                    case 'notice':
+                        postProgress(event.message);
+                        break;
+                    case 'error':
+                        error = event.message;
+                        break;
                 }
-            }
-            
-            Logger.debug(`Extracted result content: "${content.substring(0, 200)}..."`);
-            
-            if (content.trim()) {
+            });
+        } catch (queryError) {
+            error = queryError instanceof Error ? queryError.message : String(queryError);
+        }
+
+        let status: VariationStatus;
+        if (controller.signal.aborted) {
+            status = 'cancelled';
+        } else if (!error && !fs.existsSync(path.join(workingDirectory, plan.outputFile))) {
+            status = 'error';
+            error = `No design was written to ${plan.outputFile}`;
+        } else {
+            status = error ? 'error' : 'done';
+        }
+
+        webview.postMessage({
+            command: 'variationEnd',
+            groupId,
+            index: plan.index,
+            status,
+            summary: summary.trim(),
+            error
+        });
+        return status;
+    }
+
+    private describeCompaction(compaction: CompactionResult): string {
+        const details: string[] = [];
+        if (compaction.summarizedMessages > 0) {
+            details.push(`summarised ${compaction.summarizedMessages} earlier messages`);
+        }
+        if (compaction.replacedPayloads > 0) {
+            details.push(`replaced ${compaction.replacedPayloads} large tool payloads with file references`);
+        }
+        const summary = details.length > 0 ? details.join(', ') : 'trimmed earlier messages';
+        return `Conversation compacted to fit the context window: ${summary} (~${Math.round(compaction.tokensBefore / 1000)}k → ~${Math.round(compaction.tokensAfter / 1000)}k tokens).`;
+    }
+
+    // Translate one agent event into the webview's chat commands
+    private handleStreamMessage(event: AgentStreamEvent, webview: vscode.Webview): void {
+        Logger.debug(`Handling agent event: ${JSON.stringify(event, null, 2)}`);
+
+        switch (event.type) {
+            case 'text':
+                if (event.text) {
+                    webview.postMessage({
+                        command: 'chatResponseChunk',
+                        messageType: 'assistant',
+                        content: event.text,
+                        metadata: {}
+                    });
+                }
+                break;
+
+            case 'tool-call':
+                webview.postMessage({
+                    command: 'chatResponseChunk',
+                    messageType: 'tool-call',
+                    content: '',
+                    metadata: {
+                        tool_name: event.toolName,
+                        tool_id: event.toolCallId,
+                        tool_input: event.args
+                    }
+                });
+                break;
+
+            case 'tool-call-update':
+                webview.postMessage({
+                    command: 'chatToolUpdate',
+                    tool_use_id: event.toolCallId,
+                    tool_input: event.args
+                });
+                break;
+
+            case 'tool-result': {
+                const content = typeof event.result === 'string' ?
+                    event.result :
+                    JSON.stringify(event.result, null, 2);
+
+                Logger.debug(`Tool result for ${event.toolCallId}: "${content.substring(0, 200)}..."`);
+
                 webview.postMessage({
                     command: 'chatResponseChunk',
                     messageType: 'tool-result',
                     content: content,
                     metadata: {
-                        session_id: message.session_id,
-                        parent_tool_use_id: message.parent_tool_use_id,
-                        result_type: resultType,
-                        is_error: isError,
-                        duration_ms: message.duration_ms,
-                        total_cost_usd: message.total_cost_usd
+                        tool_id: event.toolCallId,
+                        tool_name: event.toolName,
+                        is_error: event.isError,
+                        is_cancelled: event.isCancelled || false
                     }
                 });
+
+                // Also send completion signal
+                webview.postMessage({
+                    command: 'chatToolResult',
+                    tool_use_id: event.toolCallId,
+                    content: content,
+                    is_error: event.isError,
+                    is_cancelled: event.isCancelled || false
+                });
+                break;
             }
-        }
-        
-        // Log tool activity
-        if ((message.type === 'assistant' || message.type === 'user') && ('subtype' in message) && (message.subtype === 'tool_use' || message.subtype === 'tool_result')) {
-            Logger.debug(`Tool activity detected: ${message.subtype}`);
+
+            case 'usage':
+                // Token usage for a finished model step
+                webview.postMessage({
+                    command: 'chatUsage',
+                    metadata: {
+                        model: event.usage.model,
+                        input_tokens: event.usage.inputTokens,
+                        output_tokens: event.usage.outputTokens,
+                        total_cost_usd: event.usage.costUsd,
+                        duration_ms: event.usage.durationMs
+                    }
+                });
+                break;
+
+            case 'notice':
+                webview.postMessage({
+                    command: 'chatNotice',
+                    kind: event.kind,
+                    content: event.message
+                });
+                break;
+
+            case 'step-budget-exhausted':
+                webview.postMessage({
+                    command: 'chatStepBudgetExhausted',
+                    maxSteps: event.maxSteps
+                });
+                break;
+
+            case 'error':
+                webview.postMessage({
+                    command: 'chatError',
+                    error: event.message
+                });
+                break;
         }
     }
 
@@ -393,65 +560,4 @@ export class ChatMessageService {
             Logger.info('No active chat request to stop');
         }
     }
-
-    private processClaudeResponse(response: any[]): string {
-        let fullResponse = '';
-        let assistantMessages: string[] = [];
-        let toolResults: string[] = [];
-        
-        for (const msg of response) {
-            const subtype = 'subtype' in msg ? msg.subtype : undefined;
-            Logger.debug(`Processing message type: ${msg.type}${subtype ? `, subtype: ${subtype}` : ''}`);
-            
-            // Collect assistant messages
-            if (msg.type === 'assistant' && msg.message) {
-                let content = '';
-                
-                if (typeof msg.message === 'string') {
-                    content = msg.message;
-                } else if (msg.message.content && Array.isArray(msg.message.content)) {
-                    content = msg.message.content
-                        .filter((item: any) => item.type === 'text')
-                        .map((item: any) => item.text)
-                        .join('\n');
-                } else if (msg.message.content && typeof msg.message.content === 'string') {
-                    content = msg.message.content;
-                }
-                
-                if (content.trim()) {
-                    assistantMessages.push(content);
-                }
-            }
-            
-            // Collect tool results
-            if (msg.type === 'result' && msg.subtype === 'success' && msg.result) {
-                const result = typeof msg.result === 'string' ? msg.result : JSON.stringify(msg.result, null, 2);
-                toolResults.push(result);
-            }
-            
-            // Handle tool usage messages
-            if ((msg.type === 'assistant' || msg.type === 'user') && ('subtype' in msg) && (msg.subtype === 'tool_use' || msg.subtype === 'tool_result')) {
-                Logger.debug(`Tool activity detected: ${msg.subtype}`);
-            }
-        }
-
-        // Combine all responses
-        if (assistantMessages.length > 0) {
-            fullResponse = assistantMessages.join('\n\n');
-        }
-        
-        if (toolResults.length > 0 && !fullResponse.includes(toolResults[0])) {
-            if (fullResponse) {
-                fullResponse += '\n\n--- Tool Results ---\n' + toolResults.join('\n\n');
-            } else {
-                fullResponse = toolResults.join('\n\n');
-            }
-        }
-
-        if (!fullResponse) {
-            fullResponse = 'I processed your request but didn\'t generate a visible response. Check the console for details.';
-        }
-
-        return fullResponse;
-    }
-} 
\ No newline at end of file
+}
@@ -1,10 +1,14 @@
-// This is deprecated, use customAgentService instead
+// Claude Code SDK agent backend, used when superdesign.agentBackend is 'claude-code'
 
 import * as vscode from 'vscode';
+import { CoreMessage } from 'ai';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import { Logger } from './logger';
+import { ApiKeyStore } from './apiKeyStore';
+import { AgentService, AgentStreamEvent } from '../types/agent';
+import { getToolApprovalPolicy } from './toolApproval';
 
 // Dynamic import types for Claude Code
 type SDKMessage = any; // Will be properly typed when imported
@@ -15,7 +19,123 @@ type QueryFunction = (params: {
     options?: any;
 }) => AsyncGenerator<SDKMessage>;
 
-export class ClaudeCodeService {
+// Claude Code's tools and the superdesign.toolApproval entry that governs each
+const CLAUDE_CODE_TOOLS: Record<string, string> = {
+    Read: 'read',
+    LS: 'ls',
+    Grep: 'grep',
+    Glob: 'glob',
+    Write: 'write',
+    Edit: 'edit',
+    MultiEdit: 'multiedit',
+    Bash: 'bash'
+};
+
+const FILE_EDIT_TOOLS = ['Write', 'Edit', 'MultiEdit'];
+
+/**
+ * Claude Code has no approval prompt here, so the tool approval policies are
+ * applied up front: 'allow' tools run freely, edit tools under 'superdesign'
+ * rely on acceptEdits, which only accepts edits inside the working directory
+ * (.superdesign), and everything that would ask is disallowed.
+ */
+export function getClaudeCodeToolPermissions(): { allowedTools: string[]; disallowedTools: string[] } {
+    const allowedTools: string[] = [];
+    const disallowedTools: string[] = [];
+    for (const [claudeCodeTool, toolName] of Object.entries(CLAUDE_CODE_TOOLS)) {
+        const policy = getToolApprovalPolicy(toolName);
+        if (policy === 'allow') {
+            allowedTools.push(claudeCodeTool);
+        } else if (policy !== 'superdesign' || !FILE_EDIT_TOOLS.includes(claudeCodeTool)) {
+            disallowedTools.push(claudeCodeTool);
+        }
+    }
+    return { allowedTools, disallowedTools };
+}
+
+function getLatestUserText(messages: CoreMessage[]): string | undefined {
+    const latest = [...messages].reverse().find(message => message.role === 'user');
+    if (!latest) {
+        return undefined;
+    }
+    if (typeof latest.content === 'string') {
+        return latest.content;
+    }
+    return latest.content
+        .map(part => part.type === 'text' ? part.text : '')
+        .join('\n') || undefined;
+}
+
+function getToolResultText(content: any): string {
+    if (typeof content === 'string') {
+        return content;
+    }
+    if (Array.isArray(content)) {
+        return content.map(part => part?.type === 'text' ? part.text : JSON.stringify(part)).join('\n');
+    }
+    return JSON.stringify(content ?? '');
+}
+
+/**
+ * Translate a Claude Code SDK message into agent stream events. Tool results only
+ * carry the tool_use id, so tool names are remembered from the calls.
+ */
+function toStreamEvents(message: SDKMessage, toolNames: Map<string, string>): AgentStreamEvent[] {
+    const events: AgentStreamEvent[] = [];
+    const content = Array.isArray(message.message?.content) ? message.message.content : [];
+
+    switch (message.type) {
+        case 'assistant':
+            for (const part of content) {
+                if (part.type === 'text' && part.text) {
+                    events.push({ type: 'text', text: part.text });
+                } else if (part.type === 'tool_use') {
+                    toolNames.set(part.id, part.name);
+                    events.push({ type: 'tool-call', toolCallId: part.id, toolName: part.name, args: part.input || {} });
+                }
+            }
+            break;
+
+        case 'user':
+            for (const part of content) {
+                if (part.type === 'tool_result') {
+                    events.push({
+                        type: 'tool-result',
+                        toolCallId: part.tool_use_id,
+                        toolName: toolNames.get(part.tool_use_id) || 'unknown',
+                        result: getToolResultText(part.content),
+                        isError: !!part.is_error
+                    });
+                }
+            }
+            break;
+
+        case 'result':
+            // The result text repeats the last assistant message, only usage and failures are new
+            if (message.usage) {
+                events.push({
+                    type: 'usage',
+                    usage: {
+                        model: 'claude-code',
+                        inputTokens: message.usage.input_tokens || 0,
+                        outputTokens: message.usage.output_tokens || 0,
+                        costUsd: message.total_cost_usd,
+                        durationMs: message.duration_ms || 0
+                    }
+                });
+            }
+            if (message.subtype === 'error_max_turns') {
+                events.push({ type: 'step-budget-exhausted', maxSteps: message.num_turns });
+            } else if (message.is_error || String(message.subtype).startsWith('error')) {
+                events.push({ type: 'error', message: message.result || `Claude Code failed (${message.subtype})` });
+            }
+            break;
+    }
+
+    return events;
+}
+
+export class ClaudeCodeService implements AgentService {
     private isInitialized = false;
     private initializationPromise: Promise<void> | null = null;
     private workingDirectory: string = '';
@@ -41,8 +161,7 @@ export class ClaudeCodeService {
             await this.setupWorkingDirectory();
 
             // Check if API key is configured
-            const config = vscode.workspace.getConfiguration('superdesign');
-            const apiKey = config.get<string>('anthropicApiKey');
+            const apiKey = await ApiKeyStore.get('anthropicApiKey');
             
             if (!apiKey) {
                 Logger.warn('No API key found');
@@ -176,9 +295,12 @@ export class ClaudeCodeService {
         }
     }
 
-    async query(prompt?: string, conversationMessages?: any, options?: Partial<ClaudeCodeOptions>, abortController?: AbortController, onMessage?: (message: SDKMessage) => void): Promise<SDKMessage[]> {
-        // ClaudeCodeService handles conversation via internal session management
-        // so we ignore conversationMessages and just use the prompt
+    async query(prompt?: string, conversationMessages?: CoreMessage[], options?: Partial<ClaudeCodeOptions>, abortController?: AbortController, onMessage?: (event: AgentStreamEvent) => void): Promise<AgentStreamEvent[]> {
+        // ClaudeCodeService handles conversation via internal session management,
+        // so only the latest user message of the history is sent
+        if (!prompt && conversationMessages) {
+            prompt = getLatestUserText(conversationMessages);
+        }
         
         if (!prompt) {
             throw new Error('ClaudeCodeService requires a prompt parameter');
@@ -190,12 +312,14 @@ export class ClaudeCodeService {
         Logger.info(`Streaming enabled: ${!!onMessage}`);
         
         if (conversationMessages) {
-            Logger.info('Note: ClaudeCodeService ignores conversationMessages (uses internal session management)');
+            Logger.info('Note: ClaudeCodeService only sends the latest message (uses internal session management)');
         }
 
         await this.ensureInitialized();
 
         const messages: SDKMessage[] = [];
+        const events: AgentStreamEvent[] = [];
+        const toolNames = new Map<string, string>();
         const systemPrompt = `# Role
 You are a **senior front-end designer**.
 You pay close attention to every pixel, spacing, font, color;
@@ -307,11 +431,11 @@ Your goal is to extract a generalized and reusable design system from the screen
 `;
         
         try {
+            const toolPermissions = getClaudeCodeToolPermissions();
+            Logger.info(`Claude Code tools allowed: ${toolPermissions.allowedTools.join(', ') || 'none'}; disallowed: ${toolPermissions.disallowedTools.join(', ') || 'none'}`);
             const finalOptions: Partial<ClaudeCodeOptions> = {
                 maxTurns: 10,
-                allowedTools: [
-                    'Read', 'Write', 'Edit', 'MultiEdit', 'Bash', 'LS', 'Grep', 'Glob'
-                ],
+                ...toolPermissions,
                 permissionMode: 'acceptEdits' as const,
                 cwd: this.workingDirectory,
                 customSystemPrompt: systemPrompt,
@@ -335,13 +459,16 @@ Your goal is to extract a generalized and reusable design system from the screen
             for await (const message of this.claudeCodeQuery(queryParams)) {
                 messages.push(message as SDKMessage);
                 
-                // Call the streaming callback if provided
-                if (onMessage) {
-                    try {
-                        onMessage(message as SDKMessage);
-                    } catch (callbackError) {
-                        Logger.error(`Streaming callback error: ${callbackError}`);
-                        // Don't break the loop if callback fails
+                for (const event of toStreamEvents(message, toolNames)) {
+                    events.push(event);
+                    // Call the streaming callback if provided
+                    if (onMessage) {
+                        try {
+                            onMessage(event);
+                        } catch (callbackError) {
+                            Logger.error(`Streaming callback error: ${callbackError}`);
+                            // Don't break the loop if callback fails
+                        }
                     }
                 }
             }
@@ -352,7 +479,7 @@ Your goal is to extract a generalized and reusable design system from the screen
             }
 
             Logger.info(`Query completed successfully. Received ${messages.length} messages`);
-            return messages;
+            return events;
         } catch (error) {
             Logger.error(`Claude Code query failed: ${error}`);
             
@@ -383,11 +510,10 @@ Your goal is to extract a generalized and reusable design system from the screen
         return this.workingDirectory;
     }
 
-    // Method to refresh API key from settings and reinitialize if needed
+    // Method to refresh API key from secret storage and reinitialize if needed
     async refreshApiKey(): Promise<boolean> {
         try {
-            const config = vscode.workspace.getConfiguration('superdesign');
-            const apiKey = config.get<string>('anthropicApiKey');
+            const apiKey = await ApiKeyStore.get('anthropicApiKey');
             
             if (!apiKey) {
                 Logger.warn('No API key found during refresh');
@@ -396,7 +522,7 @@ Your goal is to extract a generalized and reusable design system from the screen
 
             // Update environment variable
             process.env.ANTHROPIC_API_KEY = apiKey;
-            Logger.info('API key refreshed from settings');
+            Logger.info('API key refreshed from secret storage');
             
             // If not initialized yet, try to initialize
             if (!this.isInitialized) {
@@ -417,10 +543,8 @@ Your goal is to extract a generalized and reusable design system from the screen
     }
 
     // Method to check if API key is configured
-    hasApiKey(): boolean {
-        const config = vscode.workspace.getConfiguration('superdesign');
-        const apiKey = config.get<string>('anthropicApiKey');
-        return !!apiKey && apiKey.trim().length > 0;
+    async hasApiKey(): Promise<boolean> {
+        return ApiKeyStore.has('anthropicApiKey');
     }
 
     // Method to detect if an error is related to API key authentication
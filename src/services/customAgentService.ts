@@ -1,12 +1,11 @@
-import { streamText, CoreMessage } from 'ai';
-import { createOpenAI } from '@ai-sdk/openai';
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { streamText, generateObject, wrapLanguageModel, CoreMessage, LanguageModelV1, StepResult, StreamTextResult } from 'ai';
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { AgentService, ExecutionContext } from '../types/agent';
+import { AgentService, AgentStreamEvent, AgentQueryOptions, ExecutionContext } from '../types/agent';
+import { resolveActiveProvider, getProviderForModel, getProviderApiKey, getProviderEndpoint, hasProviderApiKey, ModelCapabilities } from './providerRegistry';
+import { getCatalogCapabilities } from './modelCatalog';
 import { createReadTool } from '../tools/read-tool';
 import { createWriteTool } from '../tools/write-tool';
 import { createBashTool } from '../tools/bash-tool';
@@ -16,14 +15,31 @@ import { createGrepTool } from '../tools/grep-tool';
 import { createThemeTool } from '../tools/theme-tool';
 import { createLsTool } from '../tools/ls-tool';
 import { createMultieditTool } from '../tools/multiedit-tool';
+import { createCustomTools } from '../tools/custom-tool';
+import { UsageTracker, StepUsage, calculateCost } from './usageTracker';
+import { getRetrySettings, isRetryableError, getRetryDelayMs, getErrorMessage, delay } from './retryPolicy';
+import { createTranscriptRecorder } from './scriptedModel';
+import { buildSystemPrompt } from './systemPrompt';
+import { withToolApproval } from './toolApproval';
+import { McpManager } from './mcpClient';
+import { DesignCritique, critiqueSchema, CRITIC_SYSTEM_PROMPT, buildCriticPrompt } from './designCritic';
+
+// Result of consuming one streamText attempt
+interface StreamOutcome {
+    text: string;
+    error?: unknown;
+}
 
-export class CustomAgentService implements AgentService {
+export class CustomAgentService implements AgentService, vscode.Disposable {
     private workingDirectory: string = '';
     private outputChannel: vscode.OutputChannel;
     private isInitialized = false;
+    private usageTracker?: UsageTracker;
+    private mcpManager: McpManager;
 
-    constructor(outputChannel: vscode.OutputChannel) {
+    constructor(outputChannel: vscode.OutputChannel, mcpManager = new McpManager()) {
         this.outputChannel = outputChannel;
+        this.mcpManager = mcpManager;
         this.outputChannel.appendLine('CustomAgentService constructor called');
         this.setupWorkingDirectory();
     }
@@ -67,6 +83,7 @@ export class CustomAgentService implements AgentService {
                 );
             }
             
+            this.usageTracker = new UsageTracker(this.workingDirectory);
             this.isInitialized = true;
         } catch (error) {
             this.outputChannel.appendLine(`Failed to setup working directory: ${error}`);
@@ -77,498 +94,86 @@ export class CustomAgentService implements AgentService {
         }
     }
 
-    private getModel() {
-        const config = vscode.workspace.getConfiguration('superdesign');
-        const specificModel = config.get<string>('aiModel');
-        const provider = config.get<string>('aiModelProvider', 'anthropic');
-        
-        this.outputChannel.appendLine(`Using AI provider: ${provider}`);
-        if (specificModel) {
-            this.outputChannel.appendLine(`Using specific AI model: ${specificModel}`);
+    /**
+     * File to record this query's model responses to, when recordTranscripts is on.
+     * Each query gets its own, so conversations and parallel variations never share one.
+     */
+    private createRecordingPath(): string | undefined {
+        if (!vscode.workspace.getConfiguration('superdesign').get<boolean>('recordTranscripts', false)) {
+            return undefined;
         }
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const suffix = Math.random().toString(36).substring(2, 8);
+        return path.join(this.workingDirectory, 'transcripts', `recording-${timestamp}-${suffix}.jsonl`);
+    }
+
+    private async getModel(model: string, transcriptPath?: string): Promise<LanguageModelV1> {
+        const provider = getProviderForModel(model);
         
-        // Determine provider from model name if specific model is set
-        let effectiveProvider = provider;
-        if (specificModel) {
-            if (specificModel.includes('/')) {
-                effectiveProvider = 'openrouter';
-            } else if (specificModel.startsWith('claude-')) {
-                effectiveProvider = 'anthropic';
-            } else {
-                effectiveProvider = 'openai';
-            }
+        this.outputChannel.appendLine(`Using AI provider: ${provider.id}`);
+        
+        const apiKey = await getProviderApiKey(provider);
+        if (apiKey) {
+            this.outputChannel.appendLine(`${provider.displayName} API key found: ${apiKey.substring(0, 7)}...`);
+        } else if (provider.apiKeySetting && !provider.apiKeyOptional) {
+            throw new Error(`${provider.displayName} API key not configured. Please run "Configure ${provider.displayName} API Key" command.`);
         }
         
-        switch (effectiveProvider) {
-            case 'openrouter':
-                const openrouterKey = config.get<string>('openrouterApiKey');
-                if (!openrouterKey) {
-                    throw new Error('OpenRouter API key not configured. Please run "Configure OpenRouter API Key" command.');
-                }
-                
-                this.outputChannel.appendLine(`OpenRouter API key found: ${openrouterKey.substring(0, 12)}...`);
-                
-                const openrouter = createOpenRouter({
-                    apiKey: openrouterKey
-                });
-                
-                // Use specific model if available, otherwise default to Claude 3.7 Sonnet via OpenRouter
-                const openrouterModel = specificModel || 'anthropic/claude-3-7-sonnet-20250219';
-                this.outputChannel.appendLine(`Using OpenRouter model: ${openrouterModel}`);
-                return openrouter.chat(openrouterModel);
-                
-            case 'anthropic':
-                const anthropicKey = config.get<string>('anthropicApiKey');
-                if (!anthropicKey) {
-                    throw new Error('Anthropic API key not configured. Please run "Configure Anthropic API Key" command.');
-                }
-                
-                this.outputChannel.appendLine(`Anthropic API key found: ${anthropicKey.substring(0, 12)}...`);
-                
-                const anthropic = createAnthropic({
-                    apiKey: anthropicKey,
-                    baseURL: "https://anthropic.helicone.ai/v1",
-                    headers: {
-                        "Helicone-Auth": `Bearer sk-helicone-utidjzi-eprey7i-tvjl25y-yl7mosi`,
-                    }
-                });
-                
-                // Use specific model if available, otherwise default to claude-3-5-sonnet
-                const anthropicModel = specificModel || 'claude-3-5-sonnet-20241022';
-                this.outputChannel.appendLine(`Using Anthropic model: ${anthropicModel}`);
-                return anthropic(anthropicModel);
-                
-            case 'openai':
-            default:
-                const openaiKey = config.get<string>('openaiApiKey');
-                if (!openaiKey) {
-                    throw new Error('OpenAI API key not configured. Please run "Configure OpenAI API Key" command.');
-                }
-                
-                this.outputChannel.appendLine(`OpenAI API key found: ${openaiKey.substring(0, 7)}...`);
-                
-                const openai = createOpenAI({
-                    apiKey: openaiKey,
-                    baseURL: "https://oai.helicone.ai/v1",
-                    headers: {
-                        "Helicone-Auth": `Bearer sk-helicone-utidjzi-eprey7i-tvjl25y-yl7mosi`,
-                    }
-                });
-                
-                // Use specific model if available, otherwise default to gpt-4o
-                const openaiModel = specificModel || 'gpt-4o';
-                this.outputChannel.appendLine(`Using OpenAI model: ${openaiModel}`);
-                return openai(openaiModel);
+        // Only the base URL is logged; override headers may carry proxy credentials
+        const endpoint = getProviderEndpoint(provider);
+        this.outputChannel.appendLine(`Using ${provider.displayName} model: ${model} via ${endpoint.baseUrl}${endpoint.isOverride ? ' (override)' : ''}`);
+        const languageModel = provider.createModel(model, apiKey || '', endpoint);
+
+        if (!transcriptPath || provider.id === 'scripted') {
+            return languageModel;
         }
+
+        this.outputChannel.appendLine(`Recording transcript to: ${transcriptPath}`);
+        return wrapLanguageModel({
+            model: languageModel,
+            middleware: createTranscriptRecorder(transcriptPath)
+        });
     }
 
-    private getSystemPrompt(): string {
+    private getStepBudget(): { maxSteps: number; maxTokens: number } {
         const config = vscode.workspace.getConfiguration('superdesign');
-        const specificModel = config.get<string>('aiModel');
-        const provider = config.get<string>('aiModelProvider', 'anthropic');
-        
-        // Determine the actual model name being used
-        let modelName: string;
-        if (specificModel) {
-            modelName = specificModel;
-        } else {
-            // Use defaults based on provider
-            switch (provider) {
-                case 'openai':
-                    modelName = 'gpt-4o';
-                    break;
-                case 'openrouter':
-                    modelName = 'anthropic/claude-3-7-sonnet-20250219';
-                    break;
-                case 'anthropic':
-                default:
-                    modelName = 'claude-3-5-sonnet-20241022';
-                    break;
+        return {
+            maxSteps: Math.max(1, config.get<number>('maxSteps', 10)),
+            maxTokens: Math.max(1, config.get<number>('maxTokens', 8192))
+        };
+    }
+
+    private getModelCapabilities(model: string): ModelCapabilities {
+        return getCatalogCapabilities(model);
+    }
+
+    // Models without vision support reject image parts, so replace them with a text note
+    private stripImageParts(messages: CoreMessage[]): CoreMessage[] {
+        return messages.map(message => {
+            if (message.role !== 'user' || !Array.isArray(message.content)) {
+                return message;
             }
-        }
-        
-        return `# Role
-You are superdesign, a senior frontend designer integrated into VS Code as part of the Super Design extension.
-Your goal is to help user generate amazing design using code
-
-# Current Context
-- Extension: Super Design (Design Agent for VS Code)
-- AI Model: ${modelName}
-- Working directory: ${this.workingDirectory}
-
-# Instructions
-- Use the available tools when needed to help with file operations and code analysis
-- When creating design file:
-  - Build one single html page of just one screen to build a design based on users' feedback/task
-  - You ALWAYS output design files in 'design_iterations' folder as {design_name}_{n}.html (Where n needs to be unique like table_1.html, table_2.html, etc.) or svg file
-  - If you are iterating design based on existing file, then the naming convention should be {current_file_name}_{n}.html, e.g. if we are iterating ui_1.html, then each version should be ui_1_1.html, ui_1_2.html, etc.
-- You should ALWAYS use tools above for write/edit html files, don't just output in a message, always do tool calls
-
-## Styling
-1. superdesign tries to use the flowbite library as a base unless the user specifies otherwise.
-2. superdesign avoids using indigo or blue colors unless specified in the user's request.
-3. superdesign MUST generate responsive designs.
-4. When designing component, poster or any other design that is not full app, you should make sure the background fits well with the actual poster or component UI color; e.g. if component is light then background should be dark, vice versa.
-5. Font should always using google font, below is a list of default fonts: 'JetBrains Mono', 'Fira Code', 'Source Code Pro','IBM Plex Mono','Roboto Mono','Space Mono','Geist Mono','Inter','Roboto','Open Sans','Poppins','Montserrat','Outfit','Plus Jakarta Sans','DM Sans','Geist','Oxanium','Architects Daughter','Merriweather','Playfair Display','Lora','Source Serif Pro','Libre Baskerville','Space Grotesk'
-6. When creating CSS, make sure you include !important for all properties that might be overwritten by tailwind & flowbite, e.g. h1, body, etc.
-7. Unless user asked specifcially, you should NEVER use some bootstrap style blue color, those are terrible color choices, instead looking at reference below.
-8. Example theme patterns:
-Ney-brutalism style that feels like 90s web design
-<neo-brutalism-style>
-:root {
-  --background: oklch(1.0000 0 0);
-  --foreground: oklch(0 0 0);
-  --card: oklch(1.0000 0 0);
-  --card-foreground: oklch(0 0 0);
-  --popover: oklch(1.0000 0 0);
-  --popover-foreground: oklch(0 0 0);
-  --primary: oklch(0.6489 0.2370 26.9728);
-  --primary-foreground: oklch(1.0000 0 0);
-  --secondary: oklch(0.9680 0.2110 109.7692);
-  --secondary-foreground: oklch(0 0 0);
-  --muted: oklch(0.9551 0 0);
-  --muted-foreground: oklch(0.3211 0 0);
-  --accent: oklch(0.5635 0.2408 260.8178);
-  --accent-foreground: oklch(1.0000 0 0);
-  --destructive: oklch(0 0 0);
-  --destructive-foreground: oklch(1.0000 0 0);
-  --border: oklch(0 0 0);
-  --input: oklch(0 0 0);
-  --ring: oklch(0.6489 0.2370 26.9728);
-  --chart-1: oklch(0.6489 0.2370 26.9728);
-  --chart-2: oklch(0.9680 0.2110 109.7692);
-  --chart-3: oklch(0.5635 0.2408 260.8178);
-  --chart-4: oklch(0.7323 0.2492 142.4953);
-  --chart-5: oklch(0.5931 0.2726 328.3634);
-  --sidebar: oklch(0.9551 0 0);
-  --sidebar-foreground: oklch(0 0 0);
-  --sidebar-primary: oklch(0.6489 0.2370 26.9728);
-  --sidebar-primary-foreground: oklch(1.0000 0 0);
-  --sidebar-accent: oklch(0.5635 0.2408 260.8178);
-  --sidebar-accent-foreground: oklch(1.0000 0 0);
-  --sidebar-border: oklch(0 0 0);
-  --sidebar-ring: oklch(0.6489 0.2370 26.9728);
-  --font-sans: DM Sans, sans-serif;
-  --font-serif: ui-serif, Georgia, Cambria, "Times New Roman", Times, serif;
-  --font-mono: Space Mono, monospace;
-  --radius: 0px;
-  --shadow-2xs: 4px 4px 0px 0px hsl(0 0% 0% / 0.50);
-  --shadow-xs: 4px 4px 0px 0px hsl(0 0% 0% / 0.50);
-  --shadow-sm: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 1px 2px -1px hsl(0 0% 0% / 1.00);
-  --shadow: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 1px 2px -1px hsl(0 0% 0% / 1.00);
-  --shadow-md: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 2px 4px -1px hsl(0 0% 0% / 1.00);
-  --shadow-lg: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 4px 6px -1px hsl(0 0% 0% / 1.00);
-  --shadow-xl: 4px 4px 0px 0px hsl(0 0% 0% / 1.00), 4px 8px 10px -1px hsl(0 0% 0% / 1.00);
-  --shadow-2xl: 4px 4px 0px 0px hsl(0 0% 0% / 2.50);
-  --tracking-normal: 0em;
-  --spacing: 0.25rem;
-
-  --radius-sm: calc(var(--radius) - 4px);
-  --radius-md: calc(var(--radius) - 2px);
-  --radius-lg: var(--radius);
-  --radius-xl: calc(var(--radius) + 4px);
-}
-</neo-brutalism-style>
-
-Modern dark mode style like vercel, linear
-<modern-dark-mode-style>
-:root {
-  --background: oklch(1 0 0);
-  --foreground: oklch(0.1450 0 0);
-  --card: oklch(1 0 0);
-  --card-foreground: oklch(0.1450 0 0);
-  --popover: oklch(1 0 0);
-  --popover-foreground: oklch(0.1450 0 0);
-  --primary: oklch(0.2050 0 0);
-  --primary-foreground: oklch(0.9850 0 0);
-  --secondary: oklch(0.9700 0 0);
-  --secondary-foreground: oklch(0.2050 0 0);
-  --muted: oklch(0.9700 0 0);
-  --muted-foreground: oklch(0.5560 0 0);
-  --accent: oklch(0.9700 0 0);
-  --accent-foreground: oklch(0.2050 0 0);
-  --destructive: oklch(0.5770 0.2450 27.3250);
-  --destructive-foreground: oklch(1 0 0);
-  --border: oklch(0.9220 0 0);
-  --input: oklch(0.9220 0 0);
-  --ring: oklch(0.7080 0 0);
-  --chart-1: oklch(0.8100 0.1000 252);
-  --chart-2: oklch(0.6200 0.1900 260);
-  --chart-3: oklch(0.5500 0.2200 263);
-  --chart-4: oklch(0.4900 0.2200 264);
-  --chart-5: oklch(0.4200 0.1800 266);
-  --sidebar: oklch(0.9850 0 0);
-  --sidebar-foreground: oklch(0.1450 0 0);
-  --sidebar-primary: oklch(0.2050 0 0);
-  --sidebar-primary-foreground: oklch(0.9850 0 0);
-  --sidebar-accent: oklch(0.9700 0 0);
-  --sidebar-accent-foreground: oklch(0.2050 0 0);
-  --sidebar-border: oklch(0.9220 0 0);
-  --sidebar-ring: oklch(0.7080 0 0);
-  --font-sans: ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans', sans-serif, 'Apple Color Emoji', 'Segoe UI Emoji', 'Segoe UI Symbol', 'Noto Color Emoji';
-  --font-serif: ui-serif, Georgia, Cambria, "Times New Roman", Times, serif;
-  --font-mono: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace;
-  --radius: 0.625rem;
-  --shadow-2xs: 0 1px 3px 0px hsl(0 0% 0% / 0.05);
-  --shadow-xs: 0 1px 3px 0px hsl(0 0% 0% / 0.05);
-  --shadow-sm: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10);
-  --shadow: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 1px 2px -1px hsl(0 0% 0% / 0.10);
-  --shadow-md: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 2px 4px -1px hsl(0 0% 0% / 0.10);
-  --shadow-lg: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 4px 6px -1px hsl(0 0% 0% / 0.10);
-  --shadow-xl: 0 1px 3px 0px hsl(0 0% 0% / 0.10), 0 8px 10px -1px hsl(0 0% 0% / 0.10);
-  --shadow-2xl: 0 1px 3px 0px hsl(0 0% 0% / 0.25);
-  --tracking-normal: 0em;
-  --spacing: 0.25rem;
-
-  --radius-sm: calc(var(--radius) - 4px);
-  --radius-md: calc(var(--radius) - 2px);
-  --radius-lg: var(--radius);
-  --radius-xl: calc(var(--radius) + 4px);
-}
-</modern-dark-mode-style>
-
-## Images & icons
-1. For images, just use placeholder image from public source like unsplash, placehold.co or others that you already know exact image url; Don't make up urls
-2. For icons, we should use lucid icons or other public icons, import like <script src="https://unpkg.com/lucide@latest/dist/umd/lucide.min.js"></script>
-
-## Script
-1. When importing tailwind css, just use <script src="https://cdn.tailwindcss.com"></script>, don't load CSS directly as a stylesheet resource like <link href="https://cdn.jsdelivr.net/npm/tailwindcss@2.2.19/dist/tailwind.min.css" rel="stylesheet">
-2. When using flowbite, import like <script src="https://cdn.jsdelivr.net/npm/flowbite@2.0.0/dist/flowbite.min.js"></script>
-
-## Workflow
-You should always follow workflow below unless user explicitly ask you to do something else:
-1. Layout design
-2. Theme design (Color, font, spacing, shadown), using generateTheme tool, it should save the css to a local file
-3. Core Animation design
-4. Generate a singlehtml file for the UI
-5. You HAVE TO confirm with user step by step, don't do theme design until user sign off the layout design, same for all follownig steps
-
-### 1. Layout design
-Think through how should the layout of interface look like, what are different UI components
-And present the layout in ASCII wireframe format, here are the guidelines of good ASCII wireframe, you can do ASCII art too for more custom layout or graphic design
-
-### 2. Theme design
-Think through what are the colors, fonts, spacing, etc. 
-
-### 3. Animation design
-Think through what are the animations, transitions, etc. 
-
-### 4. Generate html file for each UI component and then combine them together to form a single html file
-Generate html file for each UI component and then combine them together to form a single html file
-Make sure to reference the theme css file you created in step 2, and add custom ones that doesn't exist yet in html file
-
-<example>
-<user>design an AI chat UI</user>
-
-<assistant>
-Let's think through the layout design for an AI chat UI. Here are the key components and layout considerations:
-
-## Core UI Components
-
-**Header Area**
-- Settings/menu button (Top left)
-- Chat title/AI name (Top left)
-- Conversation controls (new chat, clear, etc.) (Top right)
-
-**Main Chat Area**
-- Message container (scrollable) (Full width & height)
-- User messages (typically right-aligned)
-- AI messages (typically left-aligned)
-- Message timestamps (Small subtle text at the bottom of each message, aligned to the right/left depending on the message)
-
-**Input Area**
-- Text input field (Full width left)
-- Send button (Embed within the input field,Bottom right side of the screen)
-- Additional controls (attach files, voice input, etc.) (Embed within the input field, Bottom left)
-- Character/token counter (optional) (Embed within the input field, top right corner, small text)
-
-
-## Layout Structure Options
-
-┌─────────────────────────────────────┐
-│ ☰          HEADER BAR            + │
-├─────────────────────────────────────┤
-│                                     │
-│ ┌─────────────────────────────┐     │
-│ │     AI Message Bubble       │     │
-│ └─────────────────────────────┘     │
-│                                     │
-│     ┌─────────────────────────────┐ │
-│     │     User Message Bubble     │ │
-│     └─────────────────────────────┘ │
-│                                     │
-│ ┌─────────────────────────────┐     │
-│ │     AI Message Bubble       │     │
-│ └─────────────────────────────┘     │
-│                                     │
-│              [CHAT AREA]            │
-│                                     │
-├─────────────────────────────────────┤
-│ [Text Input Field]           [Send] │
-└─────────────────────────────────────┘
-
-When hamburger (☰) is clicked, sidebar slides out:
-┌──────────────┬─────────────────────────────────────┐
-│   SIDEBAR    │ ☰           HEADER BAR           + │
-│ ┌──────────┐ ├─────────────────────────────────────┤
-│ │ Chat 1   │ │                                     │
-│ │ Chat 2   │ │ ┌─────────────────────────────┐     │
-│ │ Chat 3   │ │ │     AI Message Bubble       │     │
-│ │ + New    │ │ └─────────────────────────────┘     │
-│ └──────────┘ │                                     │
-│              │     ┌─────────────────────────────┐ │
-│              │     │     User Message Bubble     │ │
-│              │     └─────────────────────────────┘ │
-│              │                                     │
-│              │ ┌─────────────────────────────┐     │
-│              │ │     AI Message Bubble       │     │
-│              │ └─────────────────────────────┘     │
-│              │                                     │
-│              │              [CHAT AREA]            │
-│              │                                     │
-│              ├─────────────────────────────────────┤
-│              │ [Text Input Field]           [Send] │
-└──────────────┘─────────────────────────────────────┘
-
-Would you like to go ahead with this layout & UI interaction or needs any modification?
-</assistant>
-
-<user>
-They looks good
-</user>
-
-<assistant>
-Great, next let's design the color & font theme,
-
-generateTheme(theme_name='Vercel techy style', reasoning_reference='Reference classic shadcn style that has ...', cssFilePath='design_iterations/theme_1.css', cssSheet=':root {
-  --background: oklch(1.0000 0 0);
-  --foreground: oklch(0.1448 0 0);
-  --card: oklch(1.0000 0 0);
-  --card-foreground: oklch(0.1448 0 0);
-  --popover: oklch(1.0000 0 0);
-  --popover-foreground: oklch(0.1448 0 0);
-  --primary: oklch(0.5555 0 0);
-  --primary-foreground: oklch(0.9851 0 0);
-  --secondary: oklch(0.9702 0 0);
-  --secondary-foreground: oklch(0.2046 0 0);
-  --muted: oklch(0.9702 0 0);
-  --muted-foreground: oklch(0.5486 0 0);
-  --accent: oklch(0.9702 0 0);
-  --accent-foreground: oklch(0.2046 0 0);
-  --destructive: oklch(0.5830 0.2387 28.4765);
-  --destructive-foreground: oklch(0.9702 0 0);
-  --border: oklch(0.9219 0 0);
-  --input: oklch(0.9219 0 0);
-  --ring: oklch(0.7090 0 0);
-  --chart-1: oklch(0.5555 0 0);
-  --chart-2: oklch(0.5555 0 0);
-  --chart-3: oklch(0.5555 0 0);
-  --chart-4: oklch(0.5555 0 0);
-  --chart-5: oklch(0.5555 0 0);
-  --sidebar: oklch(0.9851 0 0);
-  --sidebar-foreground: oklch(0.1448 0 0);
-  --sidebar-primary: oklch(0.2046 0 0);
-  --sidebar-primary-foreground: oklch(0.9851 0 0);
-  --sidebar-accent: oklch(0.9702 0 0);
-  --sidebar-accent-foreground: oklch(0.2046 0 0);
-  --sidebar-border: oklch(0.9219 0 0);
-  --sidebar-ring: oklch(0.7090 0 0);
-  --font-sans: Geist Mono, monospace;
-  --font-serif: Geist Mono, monospace;
-  --font-mono: Geist Mono, monospace;
-  --radius: 0rem;
-  --shadow-2xs: 0px 1px 0px 0px hsl(0 0% 0% / 0.00);
-  --shadow-xs: 0px 1px 0px 0px hsl(0 0% 0% / 0.00);
-  --shadow-sm: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 1px 2px -1px hsl(0 0% 0% / 0.00);
-  --shadow: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 1px 2px -1px hsl(0 0% 0% / 0.00);
-  --shadow-md: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 2px 4px -1px hsl(0 0% 0% / 0.00);
-  --shadow-lg: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 4px 6px -1px hsl(0 0% 0% / 0.00);
-  --shadow-xl: 0px 1px 0px 0px hsl(0 0% 0% / 0.00), 0px 8px 10px -1px hsl(0 0% 0% / 0.00);
-  --shadow-2xl: 0px 1px 0px 0px hsl(0 0% 0% / 0.00);
-  --tracking-normal: 0em;
-  --spacing: 0.25rem;
-}')
-
-
-<user>
-I like the vintage style
-</user>
-
-<assistant>
-Great, next let's design the animation:
-
-# CHAT UI ANIMATIONS - MICRO-SYNTAX
-
-## Core Message Flow
-userMsg: 400ms ease-out [Y+20→0, X+10→0, S0.9→1]
-aiMsg: 600ms bounce [Y+15→0, S0.95→1] +200ms
-typing: 1400ms ∞ [Y±8, α0.4→1] stagger+200ms
-status: 300ms ease-out [α0.6→1, S1→1.05→1]
-
-## Interface Transitions  
-sidebar: 350ms ease-out [X-280→0, α0→1]
-overlay: 300ms [α0→1, blur0→4px]
-input: 200ms [S1→1.01, shadow+ring] focus
-input: 150ms [S1.01→1, shadow-ring] blur
-
-## Button Interactions
-sendBtn: 150ms [S1→0.95→1, R±2°] press
-sendBtn: 200ms [S1→1.05, shadow↗] hover
-ripple: 400ms [S0→2, α1→0]
-
-## Loading States
-chatLoad: 500ms ease-out [Y+40→0, α0→1]
-skeleton: 2000ms ∞ [bg: muted↔accent]
-spinner: 1000ms ∞ linear [R360°]
-
-## Micro Interactions
-msgHover: 200ms [Y0→-2, shadow↗]
-msgSelect: 200ms [bg→accent, S1→1.02]
-error: 400ms [X±5] shake
-success: 600ms bounce [S0→1.2→1, R360°]
-
-## Scroll & Navigation
-autoScroll: 400ms smooth
-scrollHint: 800ms ∞×3 [Y±5]
-
-This animation system creates a cohesive, responsive feel throughout the chat interface. Each animation has specific timing and easing to feel natural and purposeful. Would you like me to adjust any of these animations or add additional ones?
-
-</assistant>
-
-<user>
-This looks great, lets do it
-</user>
-
-<assistant>
-Great, I will generate the html file for each UI component and then combine them together to form a single html file
-
-write(file_path='design_iterations/chat_ui.css', content='...')
-write(file_path='design_iterations/chat_ui.html', content='...')
-
-I've created the html design, please reveiw and let me know if you need any changes
-
-</example>
-
-
-# Available Tools
-- **read**: Read file contents within the workspace (supports text files, images, with line range options)
-- **write**: Write content to files in the workspace (creates parent directories automatically)
-- **edit**: Replace text within files using exact string matching (requires precise text matching including whitespace and indentation)
-- **multiedit**: Perform multiple find-and-replace operations on a single file in sequence (each edit applied to result of previous edit)
-- **glob**: Find files and directories matching glob patterns (e.g., "*.js", "src/**/*.ts") - efficient for locating files by name or path structure
-- **grep**: Search for text patterns within file contents using regular expressions (can filter by file types and paths)
-- **ls**: List directory contents with optional filtering, sorting, and detailed information (shows files and subdirectories)
-- **bash**: Execute shell/bash commands within the workspace (secure execution with timeouts and output capture)
-- **generateTheme**: Generate a theme for the design
-`;}
+            return {
+                ...message,
+                content: message.content.map(part => part.type === 'image' || part.type === 'file'
+                    ? { type: 'text' as const, text: '[Image omitted: the selected model does not support image input]' }
+                    : part
+                )
+            };
+        });
+    }
+
+    private getSystemPrompt(): Promise<string> {
+        return buildSystemPrompt('agent', this.workingDirectory, resolveActiveProvider().model);
+    }
 
     async query(
         prompt?: string,
         conversationHistory?: CoreMessage[],
-        options?: any, 
+        options?: AgentQueryOptions,
         abortController?: AbortController,
-        onMessage?: (message: any) => void
-    ): Promise<any[]> {
+        onMessage?: (event: AgentStreamEvent) => void
+    ): Promise<AgentStreamEvent[]> {
         this.outputChannel.appendLine('=== CUSTOM AGENT QUERY CALLED ===');
         
         // Determine which input format we're using
@@ -589,13 +194,13 @@ I've created the html design, please reveiw and let me know if you need any chan
             await this.setupWorkingDirectory();
         }
 
-        const responseMessages: any[] = [];
-        const sessionId = `session_${Date.now()}`;
+        const responseEvents: AgentStreamEvent[] = [];
+        const emit = (event: AgentStreamEvent) => {
+            onMessage?.(event);
+            responseEvents.push(event);
+        };
+        const sessionId = options?.sessionId ?? `session_${Date.now()}`;
         let messageBuffer = '';
-        
-        // Tool call streaming state
-        let currentToolCall: any = null;
-        let toolCallBuffer = '';
 
         try {
             this.outputChannel.appendLine('Starting AI SDK streamText...');
@@ -609,7 +214,7 @@ I've created the html design, please reveiw and let me know if you need any chan
             };
 
             // Create tools with context
-            const tools = {
+            const builtInTools = {
                 read: createReadTool(executionContext),
                 write: createWriteTool(executionContext),
                 edit: createEditTool(executionContext),
@@ -621,19 +226,22 @@ I've created the html design, please reveiw and let me know if you need any chan
                 generateTheme: createThemeTool(executionContext)
             };
 
-            // Prepare AI SDK input based on available data
-            const streamTextConfig: any = {
-                model: this.getModel(),
-                system: this.getSystemPrompt(),
-                tools: tools,
-                toolCallStreaming: true,
-                maxSteps: 10, // Enable multi-step reasoning with tools
-                maxTokens: 8192 // Increase token limit to prevent truncation
+            // Workspace tools from .superdesign/tools and MCP server tools (mcp_<server>_<tool>)
+            // run commands from the repository, so they ask unless the user allowed them
+            const mcpTools = await this.mcpManager.getTools(this.workingDirectory);
+            const customTools = await createCustomTools(executionContext, [...Object.keys(builtInTools), ...Object.keys(mcpTools)]);
+            const tools = {
+                ...withToolApproval({ ...customTools, ...mcpTools }, this.workingDirectory, options?.requestToolApproval, 'ask'),
+                ...withToolApproval(builtInTools, this.workingDirectory, options?.requestToolApproval)
             };
-            
+
+            // Models to try in order: the selected one, then any configured fallbacks
+            const retrySettings = getRetrySettings();
+            const modelChain = [resolveActiveProvider().model, ...retrySettings.fallbackModels]
+                .filter((model, index, models) => models.indexOf(model) === index);
+            const systemPrompt = await this.getSystemPrompt();
+
             if (usingConversationHistory) {
-                // Use conversation messages
-                streamTextConfig.messages = conversationHistory;
                 this.outputChannel.appendLine(`Using conversation history with ${conversationHistory!.length} messages`);
                 
                 // Debug: Log the actual messages being sent to AI SDK
@@ -644,19 +252,141 @@ I've created the html design, please reveiw and let me know if you need any chan
                 });
                 this.outputChannel.appendLine('=== END AI SDK MESSAGES DEBUG ===');
             } else {
-                // Use single prompt
-                streamTextConfig.prompt = prompt;
                 this.outputChannel.appendLine(`Using single prompt: ${prompt!.substring(0, 100)}...`);
             }
 
-            console.log('========streamTextConfig', streamTextConfig);
+            // Steps that finished before a failed attempt, so a retry continues after them instead of starting over
+            let completedMessages: CoreMessage[] = [];
+            let outcome: StreamOutcome | undefined;
+            let failedModel: string | undefined;
+            // Fallback models continue the same recording, their steps follow the earlier ones
+            const transcriptPath = this.createRecordingPath();
+
+            for (const modelId of modelChain) {
+                let model: LanguageModelV1;
+                try {
+                    model = await this.getModel(modelId, transcriptPath);
+                } catch (error) {
+                    if (!failedModel) {
+                        throw error;
+                    }
+                    // A fallback without credentials is skipped rather than failing the turn
+                    this.outputChannel.appendLine(`Skipping fallback model ${modelId}: ${error}`);
+                    continue;
+                }
+
+                if (failedModel) {
+                    this.emitNotice(emit, 'fallback', `${failedModel} is unavailable, switched to ${modelId}`);
+                }
 
-            const result = streamText(streamTextConfig);
+                const capabilities = this.getModelCapabilities(modelId);
+                const stepBudget = this.getStepBudget();
+
+                for (let attempt = 1; attempt <= retrySettings.maxRetries + 1; attempt++) {
+                    let attemptMessages: CoreMessage[] = [];
+
+                    // Prepare AI SDK input based on available data
+                    const streamTextConfig: any = {
+                        model,
+                        system: systemPrompt,
+                        maxSteps: stepBudget.maxSteps, // Enable multi-step reasoning with tools
+                        maxTokens: stepBudget.maxTokens,
+                        maxRetries: 0, // Retried below instead, so the chat can show it
+                        // Also reaches tool execution, so Stop interrupts running tools
+                        abortSignal: abortController?.signal,
+                        onStepFinish: (step: StepResult<any>) => {
+                            // Response messages accumulate over the steps of an attempt
+                            attemptMessages = step.response.messages;
+                        }
+                    };
 
-            this.outputChannel.appendLine('AI SDK streamText created, starting to process chunks...');
+                    if (capabilities.toolCalling) {
+                        streamTextConfig.tools = tools;
+                        streamTextConfig.toolCallStreaming = true;
+                    } else {
+                        this.outputChannel.appendLine('Selected model does not support tool calling, sending request without tools');
+                    }
+
+                    if (usingConversationHistory || completedMessages.length > 0) {
+                        const messages: CoreMessage[] = [
+                            ...(usingConversationHistory ? conversationHistory! : [{ role: 'user' as const, content: prompt! }]),
+                            ...completedMessages
+                        ];
+                        streamTextConfig.messages = capabilities.vision ? messages : this.stripImageParts(messages);
+                    } else {
+                        streamTextConfig.prompt = prompt;
+                    }
 
+                    console.log('========streamTextConfig', streamTextConfig);
+
+                    const result = streamText(streamTextConfig);
+
+                    this.outputChannel.appendLine(`AI SDK streamText created for ${modelId} (attempt ${attempt}), starting to process chunks...`);
+
+                    outcome = await this.processStream(result, modelId, stepBudget.maxSteps, abortController, emit);
+                    messageBuffer += outcome.text;
+                    completedMessages = [...completedMessages, ...attemptMessages];
+
+                    if (!outcome.error || !isRetryableError(outcome.error)) {
+                        break;
+                    }
+
+                    if (attempt <= retrySettings.maxRetries) {
+                        const delayMs = getRetryDelayMs(outcome.error, attempt);
+                        this.emitNotice(emit, 'retry', `${getErrorMessage(outcome.error)}. Retrying ${modelId} in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${retrySettings.maxRetries + 1})`);
+                        await delay(delayMs, abortController?.signal);
+
+                        if (abortController?.signal.aborted) {
+                            this.outputChannel.appendLine('Operation aborted by user');
+                            throw new Error('Operation cancelled');
+                        }
+                    }
+                }
+
+                if (!outcome?.error || !isRetryableError(outcome.error)) {
+                    break;
+                }
+                failedModel = modelId;
+            }
+
+            if (outcome?.error) {
+                // Out of retries and fallbacks, report the error in the chat
+                emit({ type: 'error', message: getErrorMessage(outcome.error) });
+            }
+
+            this.outputChannel.appendLine(`Query completed successfully. Total events: ${responseEvents.length}`);
+            this.outputChannel.appendLine(`Complete response: "${messageBuffer}"`);
             
+            return responseEvents;
 
+        } catch (error) {
+            this.outputChannel.appendLine(`Custom Agent query failed: ${error}`);
+            this.outputChannel.appendLine(`Error stack: ${error instanceof Error ? error.stack : 'No stack trace'}`);
+            
+            // The caller reports thrown errors, so no error event is emitted here
+            throw error;
+        }
+    }
+
+    // Forward one attempt's stream chunks to the chat as agent stream events
+    private async processStream(
+        result: StreamTextResult<any, any>,
+        modelId: string,
+        maxSteps: number,
+        abortController: AbortController | undefined,
+        emit: (event: AgentStreamEvent) => void
+    ): Promise<StreamOutcome> {
+        let messageBuffer = '';
+        
+        // Tool call streaming state
+        let currentToolCall: any = null;
+        let toolCallBuffer = '';
+        let stepStartTime = Date.now();
+        let stepCount = 0;
+        // Tool calls without a result yet, reported as cancelled if the user stops
+        const pendingToolCalls = new Map<string, string>();
+
+        try {
             for await (const chunk of result.fullStream) {
                 // Check for abort signal
                 if (abortController?.signal.aborted) {
@@ -668,49 +398,36 @@ I've created the html design, please reveiw and let me know if you need any chan
 
                 switch (chunk.type) {
                     case 'text-delta':
-                        // Handle streaming text (assistant message chunks) - CoreMessage format
+                        // Handle streaming text (assistant message chunks)
                         messageBuffer += chunk.textDelta;
-                        
-                        const textMessage: CoreMessage = {
-                            role: 'assistant',
-                            content: chunk.textDelta
-                        };
-                        
-                        onMessage?.(textMessage);
-                        responseMessages.push(textMessage);
+                        emit({ type: 'text', text: chunk.textDelta });
                         break;
 
                     case 'finish':
-                        // Final result message - CoreMessage format
                         this.outputChannel.appendLine(`===Stream finished with reason: ${chunk.finishReason}`);
                         this.outputChannel.appendLine(`${JSON.stringify(chunk)}`);
                         this.outputChannel.appendLine(`========================================`);
-                        
-                        const resultMessage: CoreMessage = {
-                            role: 'assistant',
-                            content: chunk.finishReason === 'stop' ? 'Response completed successfully' : 'Response completed'
-                        };
-                        
-                        onMessage?.(resultMessage);
-                        responseMessages.push(resultMessage);
+
+                        // The last step still wanted to call tools, so the step limit cut the run short
+                        if (chunk.finishReason === 'tool-calls' && stepCount >= maxSteps) {
+                            this.outputChannel.appendLine(`Step budget exhausted after ${stepCount} steps`);
+                            emit({ type: 'step-budget-exhausted', maxSteps });
+                        }
                         break;
 
                     case 'error':
-                        // Error handling - CoreMessage format
-                        const errorMsg = (chunk as any).error?.message || 'Unknown error occurred';
-                        this.outputChannel.appendLine(`Stream error: ${errorMsg}`);
-                        
-                        const errorMessage: CoreMessage = {
-                            role: 'assistant',
-                            content: `Error: ${errorMsg}`
-                        };
-                        
-                        onMessage?.(errorMessage);
-                        responseMessages.push(errorMessage);
-                        break;
+                        if (abortController?.signal.aborted) {
+                            this.outputChannel.appendLine('Operation aborted by user');
+                            throw new Error('Operation cancelled');
+                        }
+
+                        // Hand the error back so query() can retry, fall back or report it
+                        const streamError = (chunk as any).error;
+                        this.outputChannel.appendLine(`Stream error: ${getErrorMessage(streamError)}`);
+                        return { text: messageBuffer, error: streamError };
 
                     case 'tool-call-streaming-start':
-                        // Tool call streaming started - CoreAssistantMessage format
+                        // Tool call streaming started
                         const streamStart = chunk as any;
                         currentToolCall = {
                             toolCallId: streamStart.toolCallId,
@@ -718,22 +435,17 @@ I've created the html design, please reveiw and let me know if you need any chan
                             args: {}
                         };
                         toolCallBuffer = '';
-                        
+                        pendingToolCalls.set(streamStart.toolCallId, streamStart.toolName);
+                    
                         this.outputChannel.appendLine(`Tool call streaming started: ${streamStart.toolName} (ID: ${streamStart.toolCallId})`);
-                        
-                        // Send initial tool call message in CoreAssistantMessage format
-                        const toolCallStartMessage: CoreMessage = {
-                            role: 'assistant',
-                            content: [{
-                                type: 'tool-call',
-                                toolCallId: streamStart.toolCallId,
-                                toolName: streamStart.toolName,
-                                args: {} // Empty initially, will be updated with deltas
-                            }]
-                        };
-                        
-                        onMessage?.(toolCallStartMessage);
-                        responseMessages.push(toolCallStartMessage);
+                    
+                        // Args are empty initially, updates follow as the deltas arrive
+                        emit({
+                            type: 'tool-call',
+                            toolCallId: streamStart.toolCallId,
+                            toolName: streamStart.toolName,
+                            args: {}
+                        });
                         break;
 
                     case 'tool-call-delta':
@@ -741,26 +453,19 @@ I've created the html design, please reveiw and let me know if you need any chan
                         const delta = chunk as any;
                         if (currentToolCall && delta.argsTextDelta) {
                             toolCallBuffer += delta.argsTextDelta;
-                            
+                        
                             // Try to parse current buffer as JSON and send update
                             try {
                                 const parsedArgs = JSON.parse(toolCallBuffer);
-                                
-                                // Send UPDATE signal (not new message) with special marker
-                                const updateMessage: CoreMessage & { _isUpdate?: boolean, _updateToolId?: string } = {
-                                    role: 'assistant',
-                                    content: [{
-                                        type: 'tool-call',
-                                        toolCallId: currentToolCall.toolCallId,
-                                        toolName: currentToolCall.toolName,
-                                        args: parsedArgs
-                                    }],
-                                    _isUpdate: true,
-                                    _updateToolId: currentToolCall.toolCallId
-                                };
-                                
-                                onMessage?.(updateMessage);
-                                
+                            
+                                // Update the tool call already in the chat, not a new message
+                                emit({
+                                    type: 'tool-call-update',
+                                    toolCallId: currentToolCall.toolCallId,
+                                    toolName: currentToolCall.toolName,
+                                    args: parsedArgs
+                                });
+                            
                             } catch (parseError) {
                                 // JSON not complete yet, continue buffering
                                 if (toolCallBuffer.length % 100 === 0) {
@@ -771,30 +476,25 @@ I've created the html design, please reveiw and let me know if you need any chan
                         break;
 
                     case 'tool-call':
-                        // Handle final complete tool call - CoreAssistantMessage format
+                        // Handle final complete tool call
                         const toolCall = chunk as any;
                         this.outputChannel.appendLine(`=====Tool call complete: ${JSON.stringify(toolCall)}`);
+                        pendingToolCalls.set(toolCall.toolCallId, toolCall.toolName);
                         this.outputChannel.appendLine(`========================================`);
-                        
+                    
                         // Skip sending duplicate tool call message if we already sent streaming start
                         if (!currentToolCall) {
                             // Only send if we didn't already send a streaming start message
-                            const toolCallMessage: CoreMessage = {
-                                role: 'assistant',
-                                content: [{
-                                    type: 'tool-call',
-                                    toolCallId: toolCall.toolCallId,
-                                    toolName: toolCall.toolName,
-                                    args: toolCall.args
-                                }]
-                            };
-                            
-                            onMessage?.(toolCallMessage);
-                            responseMessages.push(toolCallMessage);
+                            emit({
+                                type: 'tool-call',
+                                toolCallId: toolCall.toolCallId,
+                                toolName: toolCall.toolName,
+                                args: toolCall.args
+                            });
                         } else {
                             this.outputChannel.appendLine(`Skipping duplicate tool call message - already sent streaming start for ID: ${toolCall.toolCallId}`);
                         }
-                        
+                    
                         // Reset tool call streaming state
                         currentToolCall = null;
                         toolCallBuffer = '';
@@ -814,6 +514,17 @@ I've created the html design, please reveiw and let me know if you need any chan
                         this.outputChannel.appendLine(`====Step ${stepFinish.step || 'unknown'} finished: ${stepFinish.stepType || 'reasoning'} (${stepFinish.finishReason || 'completed'})`);
                         this.outputChannel.appendLine(`${JSON.stringify(chunk)}`);
                         this.outputChannel.appendLine(`========================================`);
+                        stepCount++;
+
+                        const stepUsage = this.createStepUsage(modelId, stepFinish.usage, Date.now() - stepStartTime);
+                        stepStartTime = Date.now();
+                        if (stepUsage) {
+                            this.outputChannel.appendLine(`Step usage: ${stepUsage.inputTokens} input, ${stepUsage.outputTokens} output tokens, cost ${stepUsage.costUsd !== undefined ? `$${stepUsage.costUsd.toFixed(4)}` : 'unknown'}`);
+                            this.usageTracker?.record(stepUsage);
+
+                            // Usage-only update, attached by the webview to the latest assistant message
+                            emit({ type: 'usage', usage: stepUsage });
+                        }
                         break;
 
                     default:
@@ -821,51 +532,94 @@ I've created the html design, please reveiw and let me know if you need any chan
                         if ((chunk as any).type === 'tool-result') {
                             const toolResult = chunk as any;
                             this.outputChannel.appendLine(`Tool result received for ID: ${toolResult.toolCallId}: ${JSON.stringify(toolResult.result).substring(0, 200)}...`);
-                            
-                            // Send tool result in CoreToolMessage format
-                            const toolResultMessage: CoreMessage = {
-                                role: 'tool',
-                                content: [{
-                                    type: 'tool-result',
-                                    toolCallId: toolResult.toolCallId,
-                                    toolName: toolResult.toolName,
-                                    result: toolResult.result,
-                                    isError: toolResult.isError || false
-                                }]
-                            };
-                            
-                            onMessage?.(toolResultMessage);
-                            responseMessages.push(toolResultMessage);
+                            pendingToolCalls.delete(toolResult.toolCallId);
+                        
+                            emit({
+                                type: 'tool-result',
+                                toolCallId: toolResult.toolCallId,
+                                toolName: toolResult.toolName,
+                                result: toolResult.result,
+                                isError: toolResult.isError || false,
+                                isCancelled: toolResult.result?.error_type === 'cancelled'
+                            });
                         } else {
                             this.outputChannel.appendLine(`Unknown chunk type: ${chunk.type}`);
                         }
                         break;
                 }
             }
+        } finally {
+            if (abortController?.signal.aborted) {
+                // Results of aborted tool calls never reach the stream, close their cards here
+                for (const [toolCallId, toolName] of pendingToolCalls) {
+                    emit({
+                        type: 'tool-result',
+                        toolCallId,
+                        toolName,
+                        result: { success: false, error: 'Cancelled by the user', error_type: 'cancelled' },
+                        isError: true,
+                        isCancelled: true
+                    });
+                }
+            }
+        }
 
-            this.outputChannel.appendLine(`Query completed successfully. Total messages: ${responseMessages.length}`);
-            this.outputChannel.appendLine(`Complete response: "${messageBuffer}"`);
-            
-            return responseMessages;
+        return { text: messageBuffer };
+    }
 
-        } catch (error) {
-            this.outputChannel.appendLine(`Custom Agent query failed: ${error}`);
-            this.outputChannel.appendLine(`Error stack: ${error instanceof Error ? error.stack : 'No stack trace'}`);
-            
-            // Send error message if streaming callback is available
-            if (onMessage) {
-                const errorMessage = {
-                    type: 'result',
-                    subtype: 'error',
-                    result: error instanceof Error ? error.message : String(error),
-                    session_id: sessionId,
-                    is_error: true
-                };
-                onMessage(errorMessage);
-            }
-            
-            throw error;
+    /**
+     * Second pass with its own reviewer prompt: score a generated design against
+     * the critique checklist and propose fixes. No tools, one structured response.
+     */
+    async critiqueDesign(filePath: string, abortController?: AbortController): Promise<{ critique: DesignCritique; usage?: StepUsage }> {
+        if (!this.isInitialized) {
+            await this.setupWorkingDirectory();
+        }
+
+        const absolutePath = path.isAbsolute(filePath) ? filePath : path.join(this.workingDirectory, filePath);
+        const file = path.relative(this.workingDirectory, absolutePath).split(path.sep).join('/');
+        const html = await fs.promises.readFile(absolutePath, 'utf8');
+
+        const modelId = resolveActiveProvider().model;
+        this.outputChannel.appendLine(`Reviewing ${file} with ${modelId}`);
+        const startTime = Date.now();
+        const result = await generateObject({
+            model: await this.getModel(modelId),
+            schema: critiqueSchema,
+            system: CRITIC_SYSTEM_PROMPT,
+            prompt: buildCriticPrompt(file, html),
+            maxTokens: this.getStepBudget().maxTokens,
+            abortSignal: abortController?.signal
+        });
+
+        const usage = this.createStepUsage(modelId, result.usage, Date.now() - startTime);
+        if (usage) {
+            this.usageTracker?.record(usage);
+        }
+        return { critique: { ...result.object, file }, usage };
+    }
+
+    // Status update shown in the chat, not part of the conversation sent to the model
+    private emitNotice(emit: (event: AgentStreamEvent) => void, kind: 'retry' | 'fallback', text: string): void {
+        this.outputChannel.appendLine(`Notice (${kind}): ${text}`);
+        emit({ type: 'notice', kind, message: text });
+    }
+
+    // Providers that don't report usage send NaN token counts, skip those steps
+    private createStepUsage(model: string, usage: any, durationMs: number): StepUsage | undefined {
+        const inputTokens = usage?.promptTokens;
+        const outputTokens = usage?.completionTokens;
+        if (!Number.isFinite(inputTokens) || !Number.isFinite(outputTokens)) {
+            return undefined;
         }
+
+        return {
+            model,
+            inputTokens,
+            outputTokens,
+            costUsd: calculateCost(model, { inputTokens, outputTokens }),
+            durationMs
+        };
     }
 
     get isReady(): boolean {
@@ -883,32 +637,12 @@ I've created the html design, please reveiw and let me know if you need any chan
         return this.workingDirectory;
     }
 
-    hasApiKey(): boolean {
-        const config = vscode.workspace.getConfiguration('superdesign');
-        const specificModel = config.get<string>('aiModel');
-        const provider = config.get<string>('aiModelProvider', 'anthropic');
-        
-        // Determine provider from model name if specific model is set
-        let effectiveProvider = provider;
-        if (specificModel) {
-            if (specificModel.includes('/')) {
-                effectiveProvider = 'openrouter';
-            } else if (specificModel.startsWith('claude-')) {
-                effectiveProvider = 'anthropic';
-            } else {
-                effectiveProvider = 'openai';
-            }
-        }
-        
-        switch (effectiveProvider) {
-            case 'openrouter':
-                return !!config.get<string>('openrouterApiKey');
-            case 'anthropic':
-                return !!config.get<string>('anthropicApiKey');
-            case 'openai':
-            default:
-                return !!config.get<string>('openaiApiKey');
-        }
+    dispose(): void {
+        this.mcpManager.dispose();
+    }
+
+    async hasApiKey(): Promise<boolean> {
+        return hasProviderApiKey(resolveActiveProvider().provider);
     }
 
     isApiKeyAuthError(errorMessage: string): boolean {
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { z } from 'zod';
+
+export type CritiqueCheckId = 'responsiveness' | 'contrast' | 'tokens' | 'rules';
+
+export const CRITIQUE_CHECKS: { id: CritiqueCheckId; label: string; description: string }[] = [
+    { id: 'responsiveness', label: 'Responsiveness', description: 'Viewport meta, fluid layout, breakpoints for mobile, tablet and desktop' },
+    { id: 'contrast', label: 'Contrast', description: 'Text and interactive elements meet WCAG AA contrast against their background' },
+    { id: 'tokens', label: 'Token usage', description: 'Colors, fonts, spacing and radii come from the theme variables instead of hard-coded values' },
+    { id: 'rules', label: 'Rule compliance', description: 'Google Fonts, tailwind/flowbite loaded as instructed, !important on overridable CSS, no bootstrap blue' }
+];
+
+export const critiqueSchema = z.object({
+    summary: z.string().describe('One or two sentences on the overall quality of the design'),
+    checks: z.array(z.object({
+        id: z.enum(['responsiveness', 'contrast', 'tokens', 'rules']),
+        score: z.number().min(0).max(10).describe('0 (fails completely) to 10 (no issues)'),
+        findings: z.array(z.string()).describe('Concrete problems, each pointing at the element or CSS rule involved')
+    })),
+    fixes: z.array(z.string()).describe('Specific edits that would fix the findings, most important first')
+});
+
+export type DesignCritique = z.infer<typeof critiqueSchema> & {
+    // Design file the critique is about, relative to the agent's working directory
+    file: string;
+};
+
+// Reviewer pass gets the file inlined, larger files are cut off
+const MAX_REVIEW_CHARS = 60000;
+
+const BOOTSTRAP_BLUES = /#007bff|#0d6efd|#0069d9|rgb\(\s*0\s*,\s*123\s*,\s*255\s*\)/i;
+
+export const CRITIC_SYSTEM_PROMPT = `You are a senior design reviewer checking a single HTML design produced by superdesign, an AI design agent.
+Review the file against this checklist and score each item from 0 to 10:
+${CRITIQUE_CHECKS.map(check => `- ${check.id} (${check.label}): ${check.description}`).join('\n')}
+
+The agent was instructed to:
+- Always generate responsive designs
+- Use Google Fonts for all typography
+- Load tailwind with <script src="https://cdn.tailwindcss.com"></script> and flowbite from its CDN script
+- Add !important to CSS properties that tailwind or flowbite might override (body, h1, etc.)
+- Never use bootstrap style blue unless the user asked for it
+
+Only report problems you can point to in the file. Automated findings are given to you as facts, include them under the matching check.
+Fixes must be concrete edits another agent can apply without seeing this review.`;
+
+/**
+ * Cheap regex checks for rules that don't need a model to verify. Their findings
+ * go into the reviewer prompt so the model doesn't have to rediscover them.
+ */
+export function runStaticChecks(html: string): Partial<Record<CritiqueCheckId, string[]>> {
+    const findings: Partial<Record<CritiqueCheckId, string[]>> = {};
+    const add = (id: CritiqueCheckId, finding: string) => {
+        (findings[id] ??= []).push(finding);
+    };
+    const styles = Array.from(html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi), match => match[1]).join('\n');
+
+    if (!/<meta[^>]+name=["']viewport["']/i.test(html)) {
+        add('responsiveness', 'Missing <meta name="viewport"> tag');
+    }
+    if (!/@media/i.test(styles) && !/class=["'][^"']*\b(sm|md|lg|xl):/i.test(html)) {
+        add('responsiveness', 'No media queries or responsive tailwind prefixes (sm:, md:, lg:)');
+    }
+
+    if (!/fonts\.googleapis\.com/i.test(html)) {
+        add('rules', 'No Google Font is loaded');
+    }
+    if (/<link[^>]+tailwind[^>]*\.css/i.test(html)) {
+        add('rules', 'Tailwind is loaded as a stylesheet instead of the cdn.tailwindcss.com script');
+    }
+    if (BOOTSTRAP_BLUES.test(html)) {
+        add('rules', 'Uses bootstrap blue (#007bff / #0d6efd)');
+    }
+    const baseRules = Array.from(styles.matchAll(/(?:^|})\s*(body|html|h[1-6])\s*\{([^}]*)\}/gi));
+    const missingImportant = baseRules
+        .filter(([, , body]) => body.split(';').some(declaration => declaration.includes(':') && !/!important/i.test(declaration)))
+        .map(([, selector]) => selector);
+    if (missingImportant.length > 0) {
+        add('rules', `CSS for ${Array.from(new Set(missingImportant)).join(', ')} is missing !important, tailwind can override it`);
+    }
+
+    const hardCodedColors = styles.match(/#[0-9a-f]{3,8}\b/gi)?.length ?? 0;
+    const variableUses = styles.match(/var\(--/g)?.length ?? 0;
+    if (hardCodedColors > 5 && hardCodedColors > variableUses) {
+        add('tokens', `${hardCodedColors} hard-coded colors in <style> against ${variableUses} theme variable uses`);
+    }
+
+    return findings;
+}
+
+export function buildCriticPrompt(file: string, html: string): string {
+    const findings = runStaticChecks(html);
+    const automated = Object.entries(findings)
+        .flatMap(([id, items]) => items!.map(item => `- [${id}] ${item}`))
+        .join('\n');
+    const content = html.length > MAX_REVIEW_CHARS
+        ? `${html.slice(0, MAX_REVIEW_CHARS)}\n<!-- truncated, ${html.length - MAX_REVIEW_CHARS} more characters -->`
+        : html;
+
+    return `Review the design in ${file}.
+
+Automated findings:
+${automated || '- none'}
+
+File content:
+\`\`\`html
+${content}
+\`\`\``;
+}
+
+export function isDesignCriticEnabled(): boolean {
+    return vscode.workspace.getConfiguration('superdesign').get<boolean>('designCritic', false);
+}
+
+// Write/edit tool paths are relative to .superdesign for the built-in agent and absolute for Claude Code
+export function isDesignFile(filePath: unknown): filePath is string {
+    return typeof filePath === 'string' && /design_iterations[\\/][^\\/]+\.html$/i.test(filePath);
+}
@@ -0,0 +1,288 @@
+import { CoreMessage } from 'ai';
+import * as vscode from 'vscode';
+import { findCatalogModel } from './modelCatalog';
+
+// Rough heuristic, close enough for deciding when to compact
+const CHARS_PER_TOKEN = 4;
+// Images are billed by size rather than by their base64 length
+const IMAGE_TOKENS = 1600;
+// Headroom for the system prompt and tool definitions sent with every request
+const SYSTEM_PROMPT_TOKENS = 6000;
+// Models missing from the catalog (custom endpoints) are assumed to have a small window
+const DEFAULT_CONTEXT_WINDOW = 32768;
+// Compact once the history fills this share of the space left for it
+const COMPACTION_THRESHOLD = 0.8;
+// Tool arguments and results longer than this are replaced with references
+const LARGE_PAYLOAD_CHARS = 400;
+// Turns kept verbatim when older turns are summarised
+const RECENT_TURNS = 2;
+const EXCERPT_CHARS = 200;
+
+// Tools whose file argument points at what they produced
+const FILE_TOOLS: Record<string, string> = {
+    write: 'file_path',
+    edit: 'file_path',
+    multiedit: 'file_path',
+    read: 'file_path',
+    generateTheme: 'cssFilePath'
+};
+
+export interface CompactionResult {
+    messages: CoreMessage[];
+    compacted: boolean;
+    tokensBefore: number;
+    tokensAfter: number;
+    tokenLimit: number;
+    replacedPayloads: number;
+    summarizedMessages: number;
+}
+
+function payloadLength(value: unknown): number {
+    if (value === undefined || value === null) {
+        return 0;
+    }
+    return typeof value === 'string' ? value.length : JSON.stringify(value).length;
+}
+
+function estimateMessageTokens(message: CoreMessage): number {
+    // Small per-message overhead for roles and separators
+    let tokens = 4;
+    if (typeof message.content === 'string') {
+        return tokens + Math.ceil(message.content.length / CHARS_PER_TOKEN);
+    }
+
+    for (const part of message.content as any[]) {
+        switch (part.type) {
+            case 'text':
+                tokens += Math.ceil((part.text?.length || 0) / CHARS_PER_TOKEN);
+                break;
+            case 'image':
+            case 'file':
+                tokens += IMAGE_TOKENS;
+                break;
+            case 'tool-call':
+                tokens += Math.ceil(payloadLength(part.args) / CHARS_PER_TOKEN);
+                break;
+            case 'tool-result':
+                tokens += Math.ceil(payloadLength(part.result) / CHARS_PER_TOKEN);
+                break;
+        }
+    }
+    return tokens;
+}
+
+export function estimateTokens(messages: CoreMessage[]): number {
+    return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Tokens the history may use before it gets compacted, leaving room for the
+ * system prompt, tool definitions and the model's own output
+ */
+export function getHistoryTokenLimit(modelId: string): number {
+    const contextWindow = findCatalogModel(modelId)?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+    const maxTokens = vscode.workspace.getConfiguration('superdesign').get<number>('maxTokens', 8192);
+    const available = Math.max(contextWindow - maxTokens - SYSTEM_PROMPT_TOKENS, contextWindow / 4);
+    return Math.floor(available * COMPACTION_THRESHOLD);
+}
+
+/**
+ * Split the history into turns, each starting at a user message, so tool calls
+ * are never separated from their results
+ */
+function splitTurns(messages: CoreMessage[]): CoreMessage[][] {
+    const turns: CoreMessage[][] = [];
+    for (const message of messages) {
+        if (message.role === 'user' || turns.length === 0) {
+            turns.push([]);
+        }
+        turns[turns.length - 1].push(message);
+    }
+    return turns;
+}
+
+function getToolFile(toolName: string, args: any): string | undefined {
+    const argName = FILE_TOOLS[toolName];
+    const file = argName ? args?.[argName] : undefined;
+    return typeof file === 'string' ? file : undefined;
+}
+
+function collectToolFiles(messages: CoreMessage[]): Map<string, string> {
+    const files = new Map<string, string>();
+    for (const message of messages) {
+        if (message.role !== 'assistant' || !Array.isArray(message.content)) {
+            continue;
+        }
+        for (const part of message.content as any[]) {
+            const file = part.type === 'tool-call' ? getToolFile(part.toolName, part.args) : undefined;
+            if (file) {
+                files.set(part.toolCallId, file);
+            }
+        }
+    }
+    return files;
+}
+
+/**
+ * Replace large tool arguments and results with references to the files they
+ * produced, and drop images. The agent can read the files again if it needs them.
+ */
+function stripLargePayloads(messages: CoreMessage[], toolFiles: Map<string, string>): { messages: CoreMessage[]; replaced: number } {
+    let replaced = 0;
+
+    const stripped = messages.map(message => {
+        if (!Array.isArray(message.content)) {
+            return message;
+        }
+
+        const content = (message.content as any[]).map(part => {
+            if (part.type === 'image' || part.type === 'file') {
+                replaced++;
+                return { type: 'text', text: '[Image removed from earlier in the conversation]' };
+            }
+
+            if (part.type === 'tool-call' && part.args && typeof part.args === 'object') {
+                const file = getToolFile(part.toolName, part.args);
+                let changed = false;
+                const args: Record<string, unknown> = {};
+                for (const [key, value] of Object.entries(part.args)) {
+                    const length = payloadLength(value);
+                    if (length > LARGE_PAYLOAD_CHARS && value !== file) {
+                        args[key] = `[${length} characters omitted${file ? `, see ${file}` : ''}]`;
+                        changed = true;
+                    } else {
+                        args[key] = value;
+                    }
+                }
+                if (changed) {
+                    replaced++;
+                    return { ...part, args };
+                }
+            }
+
+            if (part.type === 'tool-result') {
+                const length = payloadLength(part.result);
+                if (length > LARGE_PAYLOAD_CHARS) {
+                    replaced++;
+                    const file = toolFiles.get(part.toolCallId);
+                    return {
+                        ...part,
+                        result: `[${part.toolName} result omitted (${length} characters)${file ? `, file: ${file}` : ''}]`
+                    };
+                }
+            }
+
+            return part;
+        });
+
+        return { ...message, content } as CoreMessage;
+    });
+
+    return { messages: stripped, replaced };
+}
+
+function getText(message: CoreMessage): string {
+    if (typeof message.content === 'string') {
+        return message.content;
+    }
+    return (message.content as any[])
+        .filter(part => part.type === 'text')
+        .map(part => part.text)
+        .join(' ');
+}
+
+function excerpt(text: string): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > EXCERPT_CHARS ? `${singleLine.slice(0, EXCERPT_CHARS)}…` : singleLine;
+}
+
+function summarizeTurns(turns: CoreMessage[][], toolFiles: Map<string, string>): CoreMessage {
+    const lines = turns.map((turn, index) => {
+        const request = turn.find(message => message.role === 'user');
+        const replies = turn.filter(message => message.role === 'assistant').map(getText).filter(text => text.trim());
+        const files = new Set<string>();
+        for (const message of turn) {
+            if (message.role === 'assistant' && Array.isArray(message.content)) {
+                for (const part of message.content as any[]) {
+                    const file = part.type === 'tool-call' && part.toolName !== 'read' ? toolFiles.get(part.toolCallId) : undefined;
+                    if (file) {
+                        files.add(file);
+                    }
+                }
+            }
+        }
+
+        const summary = [`${index + 1}. User: ${request ? excerpt(getText(request)) : '(no request)'}`];
+        if (replies.length > 0) {
+            summary.push(`   Assistant: ${excerpt(replies[replies.length - 1])}`);
+        }
+        if (files.size > 0) {
+            summary.push(`   Files changed: ${Array.from(files).join(', ')}`);
+        }
+        return summary.join('\n');
+    });
+
+    return {
+        role: 'user',
+        content: `[Earlier conversation, summarised to fit the context window]\n${lines.join('\n')}`
+    };
+}
+
+/**
+ * Shrink the chat history when it nears the model's context window: first large
+ * tool payloads in earlier turns are replaced with file references, then, if
+ * that is not enough, earlier turns are summarised into a single message.
+ * The latest turn is always sent unchanged.
+ */
+export function compactHistory(messages: CoreMessage[], modelId: string): CompactionResult {
+    const tokensBefore = estimateTokens(messages);
+    const tokenLimit = getHistoryTokenLimit(modelId);
+    const unchanged: CompactionResult = {
+        messages,
+        compacted: false,
+        tokensBefore,
+        tokensAfter: tokensBefore,
+        tokenLimit,
+        replacedPayloads: 0,
+        summarizedMessages: 0
+    };
+
+    const autoCompact = vscode.workspace.getConfiguration('superdesign').get<boolean>('autoCompact', true);
+    const turns = splitTurns(messages);
+    if (!autoCompact || tokensBefore <= tokenLimit || turns.length < 2) {
+        return unchanged;
+    }
+
+    const toolFiles = collectToolFiles(messages);
+    const latestTurn = turns[turns.length - 1];
+    const earlier = stripLargePayloads(turns.slice(0, -1).flat(), toolFiles);
+
+    let compactedMessages = [...earlier.messages, ...latestTurn];
+    let summarizedMessages = 0;
+
+    // Keep fewer verbatim turns until the history fits, down to the latest one
+    for (let keep = RECENT_TURNS; keep >= 1 && estimateTokens(compactedMessages) > tokenLimit; keep--) {
+        const earlierTurns = splitTurns(earlier.messages);
+        const verbatimCount = Math.max(0, keep - 1);
+        const summarized = earlierTurns.slice(0, earlierTurns.length - verbatimCount);
+        if (summarized.length === 0) {
+            continue;
+        }
+        summarizedMessages = summarized.flat().length;
+        compactedMessages = [
+            summarizeTurns(summarized, toolFiles),
+            ...earlierTurns.slice(earlierTurns.length - verbatimCount).flat(),
+            ...latestTurn
+        ];
+    }
+
+    return {
+        messages: compactedMessages,
+        compacted: true,
+        tokensBefore,
+        tokensAfter: estimateTokens(compactedMessages),
+        tokenLimit,
+        replacedPayloads: earlier.replaced,
+        summarizedMessages
+    };
+}
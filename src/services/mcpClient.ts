@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { spawn, ChildProcess } from 'child_process';
+import { experimental_createMCPClient, JSONRPCMessage, MCPTransport, ToolSet } from 'ai';
+import { Logger } from './logger';
+
+type MCPClient = Awaited<ReturnType<typeof experimental_createMCPClient>>;
+
+/**
+ * One stdio MCP server, in the same shape as the "mcpServers" entries used by
+ * Claude Desktop and Cursor
+ */
+export interface McpServerConfig {
+    command: string;
+    args?: string[];
+    env?: Record<string, string>;
+    // Relative to the workspace root, which is also the default
+    cwd?: string;
+    disabled?: boolean;
+}
+
+/**
+ * Asked before starting a server defined in the workspace's .superdesign/mcp.json,
+ * which comes with the repository rather than from the user
+ */
+export type McpServerConfirmation = (name: string, config: McpServerConfig) => Promise<boolean>;
+
+interface LoadedMcpServer {
+    config: McpServerConfig;
+    source: 'settings' | 'workspace';
+}
+
+interface McpConnection {
+    // Config the server was started with, a changed config restarts it
+    signature: string;
+    client?: MCPClient;
+    tools: ToolSet;
+}
+
+const MCP_CONFIG_FILE = 'mcp.json';
+const START_SERVER_ACTION = 'Start Server';
+// Provider APIs reject longer tool names
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * MCP transport over a child process's stdin/stdout, one JSON-RPC message per line
+ */
+class StdioTransport implements MCPTransport {
+    private process?: ChildProcess;
+    private buffer = '';
+
+    onclose?: () => void;
+    onerror?: (error: Error) => void;
+    onmessage?: (message: JSONRPCMessage) => void;
+
+    constructor(
+        private serverName: string,
+        private config: McpServerConfig,
+        private cwd: string,
+        // The MCP client takes over onclose, so the manager is told separately
+        private onExit: () => void
+    ) {}
+
+    start(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(this.config.command, this.config.args ?? [], {
+                cwd: this.cwd,
+                env: { ...process.env, ...this.config.env },
+                stdio: ['pipe', 'pipe', 'pipe'],
+                // Resolves npx.cmd and friends on Windows
+                shell: process.platform === 'win32'
+            });
+
+            child.once('spawn', () => resolve());
+            child.once('error', error => {
+                reject(error);
+                this.onerror?.(error);
+            });
+            child.once('close', code => {
+                Logger.info(`MCP server ${this.serverName} exited with code ${code}`);
+                this.process = undefined;
+                this.onclose?.();
+                this.onExit();
+            });
+
+            child.stdout?.on('data', (chunk: Buffer) => this.handleData(chunk));
+            child.stderr?.on('data', (chunk: Buffer) => Logger.debug(`[mcp:${this.serverName}] ${chunk.toString().trim()}`));
+            this.process = child;
+        });
+    }
+
+    private handleData(chunk: Buffer): void {
+        this.buffer += chunk.toString();
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() ?? '';
+
+        for (const line of lines.map(line => line.trim()).filter(Boolean)) {
+            try {
+                this.onmessage?.(JSON.parse(line));
+            } catch (error) {
+                this.onerror?.(new Error(`Invalid message from MCP server ${this.serverName}: ${line.substring(0, 200)}`));
+            }
+        }
+    }
+
+    send(message: JSONRPCMessage): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.process?.stdin) {
+                reject(new Error(`MCP server ${this.serverName} is not running`));
+                return;
+            }
+            this.process.stdin.write(`${JSON.stringify(message)}\n`, error => error ? reject(error) : resolve());
+        });
+    }
+
+    async close(): Promise<void> {
+        this.process?.kill();
+        this.process = undefined;
+    }
+}
+
+function getWorkspaceRoot(workingDirectory: string): string {
+    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? workingDirectory;
+}
+
+function getConnectTimeout(): number {
+    return Math.max(1000, vscode.workspace.getConfiguration('superdesign').get<number>('mcpConnectTimeout', 10000));
+}
+
+/**
+ * Servers from the superdesign.mcpServers setting, then .superdesign/mcp.json,
+ * whose entries win on a name clash
+ */
+export async function loadMcpServerConfigs(workingDirectory: string): Promise<Record<string, LoadedMcpServer>> {
+    const servers: Record<string, LoadedMcpServer> = {};
+    const settings = vscode.workspace.getConfiguration('superdesign').get<Record<string, McpServerConfig>>('mcpServers', {});
+    for (const [name, config] of Object.entries(settings)) {
+        servers[name] = { config, source: 'settings' };
+    }
+
+    const configPath = path.join(workingDirectory, MCP_CONFIG_FILE);
+    try {
+        const parsed = JSON.parse(await fs.promises.readFile(configPath, 'utf8'));
+        for (const [name, config] of Object.entries<McpServerConfig>(parsed.mcpServers ?? {})) {
+            servers[name] = { config, source: 'workspace' };
+        }
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            Logger.warn(`Failed to read ${configPath}: ${error}`);
+        }
+    }
+
+    return Object.fromEntries(
+        Object.entries(servers).filter(([, { config }]) => config && typeof config.command === 'string' && !config.disabled)
+    );
+}
+
+/**
+ * Workspace servers only start in a trusted workspace, once the user agreed to run their command
+ */
+export async function confirmWorkspaceServer(name: string, config: McpServerConfig): Promise<boolean> {
+    if (!vscode.workspace.isTrusted) {
+        Logger.warn(`Not starting MCP server ${name} from .superdesign/${MCP_CONFIG_FILE}: the workspace is not trusted`);
+        return false;
+    }
+    const choice = await vscode.window.showWarningMessage(
+        `This workspace's .superdesign/${MCP_CONFIG_FILE} wants to start the MCP server "${name}" for the agent.`,
+        { modal: true, detail: `It runs with your permissions:\n${[config.command, ...(config.args ?? [])].join(' ')}` },
+        START_SERVER_ACTION
+    );
+    return choice === START_SERVER_ACTION;
+}
+
+// mcp_<server>_<tool>, the naming the chat's tool cards already know
+function getNamespacedToolName(serverName: string, toolName: string): string {
+    return `mcp_${serverName}_${toolName}`.replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Starts the configured MCP servers on first use and keeps them running across
+ * queries. Servers whose config changed are restarted, removed ones are stopped.
+ */
+export class McpManager implements vscode.Disposable {
+    private connections = new Map<string, Promise<McpConnection>>();
+
+    constructor(private confirmServer: McpServerConfirmation = confirmWorkspaceServer) {}
+
+    async getTools(workingDirectory: string): Promise<ToolSet> {
+        const servers = await loadMcpServerConfigs(workingDirectory);
+
+        for (const [name, pending] of this.connections) {
+            const connection = await pending;
+            if (connection.signature !== JSON.stringify(servers[name])) {
+                this.stop(name, connection);
+            }
+        }
+
+        const tools: ToolSet = {};
+        for (const [name, server] of Object.entries(servers)) {
+            let pending = this.connections.get(name);
+            if (!pending) {
+                pending = this.connect(name, server, getWorkspaceRoot(workingDirectory));
+                this.connections.set(name, pending);
+            }
+
+            const connection = await pending;
+            for (const [toolName, tool] of Object.entries(connection.tools)) {
+                tools[getNamespacedToolName(name, toolName)] = tool;
+            }
+        }
+        return tools;
+    }
+
+    private async connect(name: string, server: LoadedMcpServer, workspaceRoot: string): Promise<McpConnection> {
+        const { config } = server;
+        // Declined, timed out and failed servers contribute no tools until their config changes
+        const signature = JSON.stringify(server);
+        if (server.source === 'workspace' && !(await this.confirmServer(name, config))) {
+            Logger.info(`MCP server ${name} from .superdesign/${MCP_CONFIG_FILE} was not started`);
+            return { signature, tools: {} };
+        }
+
+        const cwd = config.cwd ? path.resolve(workspaceRoot, config.cwd) : workspaceRoot;
+        Logger.info(`Starting MCP server ${name}: ${config.command} ${(config.args ?? []).join(' ')}`);
+
+        const transport = new StdioTransport(name, config, cwd, () => this.forget(name, signature));
+        const timeoutMs = getConnectTimeout();
+        let timeoutHandle: NodeJS.Timeout | undefined;
+        // A server that starts but never answers must not hold up the query
+        const timeout = new Promise<never>((_, reject) => {
+            timeoutHandle = setTimeout(() => reject(new Error(`no response within ${timeoutMs}ms`)), timeoutMs);
+        });
+
+        let client: MCPClient | undefined;
+        try {
+            client = await Promise.race([
+                experimental_createMCPClient({
+                    name: 'superdesign',
+                    transport,
+                    onUncaughtError: error => Logger.warn(`MCP server ${name}: ${error}`)
+                }),
+                timeout
+            ]);
+            const tools = await Promise.race([client.tools(), timeout]);
+            Logger.info(`MCP server ${name} provides ${Object.keys(tools).length} tools: ${Object.keys(tools).join(', ')}`);
+            return { signature, client, tools };
+        } catch (error) {
+            Logger.error(`Failed to start MCP server ${name}: ${error instanceof Error ? error.message : error}`, true);
+            await (client ? client.close() : transport.close()).catch(() => undefined);
+            return { signature, tools: {} };
+        } finally {
+            clearTimeout(timeoutHandle);
+        }
+    }
+
+    // A server that exits on its own is started again on the next query
+    private async forget(name: string, signature: string): Promise<void> {
+        const pending = this.connections.get(name);
+        if (pending && (await pending).signature === signature && (await pending).client) {
+            this.connections.delete(name);
+        }
+    }
+
+    private stop(name: string, connection: McpConnection): void {
+        Logger.info(`Stopping MCP server ${name}`);
+        this.connections.delete(name);
+        connection.client?.close().catch(error => Logger.warn(`Failed to stop MCP server ${name}: ${error}`));
+    }
+
+    dispose(): void {
+        for (const [name, pending] of this.connections) {
+            pending.then(connection => this.stop(name, connection));
+        }
+        this.connections.clear();
+    }
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import bundledCatalog from './modelCatalog.json';
+import {
+    getProvider,
+    getProviderForModel,
+    getCustomModels,
+    getModelCapabilities as getProviderCapabilities,
+    ModelCapabilities,
+    CUSTOM_MODEL_PREFIX
+} from './providerRegistry';
+import { listTranscripts, SCRIPTED_MODEL_PREFIX } from './scriptedModel';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * A model the user can pick, with what it supports and what it costs
+ */
+export interface ModelCatalogEntry {
+    id: string;
+    name: string;
+    provider: string;
+    providerLabel?: string;
+    category: string;
+    contextWindow?: number;
+    vision: boolean;
+    toolCalling: boolean;
+    price?: ModelPrice;
+}
+
+/**
+ * Entry from the superdesign.modelCatalog setting. Only the id is required;
+ * entries with a bundled id override just the fields they set.
+ */
+type ModelCatalogOverride = Partial<ModelCatalogEntry> & { id: string };
+
+export interface ModelPreferences {
+    pinned: string[];
+    hidden: string[];
+}
+
+function completeEntry(entry: ModelCatalogOverride): ModelCatalogEntry {
+    const provider = entry.provider ? getProvider(entry.provider) : getProviderForModel(entry.id);
+    const capabilities = getProviderCapabilities(provider, entry.id);
+
+    return {
+        ...entry,
+        name: entry.name || entry.id,
+        provider: provider.id,
+        providerLabel: entry.providerLabel || provider.displayName,
+        category: entry.category || 'Balanced',
+        vision: entry.vision ?? capabilities.vision,
+        toolCalling: entry.toolCalling ?? capabilities.toolCalling
+    };
+}
+
+function getCustomEndpointEntries(): ModelCatalogEntry[] {
+    const baseUrl = vscode.workspace.getConfiguration('superdesign').get<string>('customBaseUrl') || '';
+
+    return getCustomModels().map(model => completeEntry({
+        id: `${CUSTOM_MODEL_PREFIX}${model.name}`,
+        name: model.name,
+        provider: 'custom',
+        providerLabel: baseUrl ? `Custom (${baseUrl})` : 'Custom',
+        category: 'Custom'
+    }));
+}
+
+function getScriptedEntries(): ModelCatalogEntry[] {
+    return listTranscripts().map(({ name }) => completeEntry({
+        id: `${SCRIPTED_MODEL_PREFIX}${name}`,
+        name: `Transcript: ${name}`,
+        provider: 'scripted',
+        category: 'Offline'
+    }));
+}
+
+/**
+ * The bundled catalog, extended or overridden by superdesign.modelCatalog,
+ * followed by the models of the custom OpenAI-compatible endpoint and the
+ * scripted transcripts in .superdesign/transcripts
+ */
+export function getModelCatalog(): ModelCatalogEntry[] {
+    const entries = new Map<string, ModelCatalogEntry>();
+
+    for (const entry of bundledCatalog as ModelCatalogEntry[]) {
+        entries.set(entry.id, completeEntry(entry));
+    }
+
+    const overrides = vscode.workspace.getConfiguration('superdesign').get<ModelCatalogOverride[]>('modelCatalog', []);
+    for (const override of overrides) {
+        if (!override?.id) {
+            continue;
+        }
+        const existing = entries.get(override.id);
+        entries.set(override.id, completeEntry({ ...existing, ...override }));
+    }
+
+    for (const entry of [...getCustomEndpointEntries(), ...getScriptedEntries()]) {
+        entries.set(entry.id, entry);
+    }
+
+    return Array.from(entries.values());
+}
+
+export function findCatalogModel(modelId: string): ModelCatalogEntry | undefined {
+    return getModelCatalog().find(entry => entry.id === modelId);
+}
+
+/**
+ * Capabilities from the catalog, or the provider's defaults for models it doesn't list
+ */
+export function getCatalogCapabilities(modelId: string): ModelCapabilities {
+    const entry = findCatalogModel(modelId);
+    if (entry) {
+        return { toolCalling: entry.toolCalling, vision: entry.vision };
+    }
+    return getProviderCapabilities(getProviderForModel(modelId), modelId);
+}
+
+export function getModelPreferences(): ModelPreferences {
+    const config = vscode.workspace.getConfiguration('superdesign');
+    return {
+        pinned: config.get<string[]>('pinnedModels', []),
+        hidden: config.get<string[]>('hiddenModels', [])
+    };
+}
+
+async function toggleModelInSetting(settingKey: 'pinnedModels' | 'hiddenModels', modelId: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration('superdesign');
+    const current = config.get<string[]>(settingKey, []);
+    const updated = current.includes(modelId)
+        ? current.filter(id => id !== modelId)
+        : [...current, modelId];
+    await config.update(settingKey, updated, vscode.ConfigurationTarget.Global);
+}
+
+export function toggleModelPinned(modelId: string): Promise<void> {
+    return toggleModelInSetting('pinnedModels', modelId);
+}
+
+export function toggleModelHidden(modelId: string): Promise<void> {
+    return toggleModelInSetting('hiddenModels', modelId);
+}
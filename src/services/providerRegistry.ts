@@ -0,0 +1,292 @@
+import { LanguageModelV1 } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import * as vscode from 'vscode';
+import { ApiKeyStore } from './apiKeyStore';
+import { ScriptedLanguageModel, SCRIPTED_MODEL_PREFIX, resolveTranscriptPath } from './scriptedModel';
+
+/**
+ * What a model can handle beyond plain text chat
+ */
+export interface ModelCapabilities {
+    toolCalling: boolean;
+    vision: boolean;
+}
+
+/**
+ * Largest images a provider accepts. Attachments are downscaled and re-encoded
+ * in the webview to fit before they are sent.
+ */
+export interface ImageLimits {
+    // Longest edge in pixels, providers downscale anything larger themselves
+    maxDimension: number;
+    maxBytes: number;
+    maxImages: number;
+    mimeTypes: string[];
+}
+
+/**
+ * Everything the extension needs to know about an AI model provider
+ */
+export interface ProviderDefinition {
+    id: string;
+    displayName: string;
+    // Providers without an apiKeySetting need no key at all
+    apiKeySetting?: string;
+    apiKeyOptional?: boolean;
+    configureCommand: string;
+    defaultModel: string;
+    defaultBaseUrl: string;
+    matchesModel: (modelId: string) => boolean;
+    createModel: (modelId: string, apiKey: string, endpoint: ProviderEndpoint) => LanguageModelV1;
+    getCapabilities?: (modelId: string) => ModelCapabilities;
+    imageLimits?: ImageLimits;
+}
+
+/**
+ * Where requests for a provider are sent. Overridable per provider through
+ * the superdesign.providerEndpoints setting, e.g. to route through an observability proxy.
+ */
+export interface ProviderEndpoint {
+    baseUrl: string;
+    headers: Record<string, string>;
+    isOverride: boolean;
+}
+
+interface ProviderEndpointOverride {
+    baseUrl?: string;
+    headers?: Record<string, string>;
+}
+
+/**
+ * A model served by the user's own OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, ...)
+ */
+export interface CustomModelConfig {
+    name: string;
+    toolCalling?: boolean;
+    vision?: boolean;
+}
+
+export const CUSTOM_MODEL_PREFIX = 'custom:';
+
+const DEFAULT_CAPABILITIES: ModelCapabilities = { toolCalling: true, vision: true };
+
+const MB = 1024 * 1024;
+
+// Conservative enough for OpenRouter and local models whose limits aren't known
+const DEFAULT_IMAGE_LIMITS: ImageLimits = {
+    maxDimension: 1568,
+    maxBytes: 5 * MB,
+    maxImages: 20,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp']
+};
+
+export function getCustomModels(): CustomModelConfig[] {
+    return vscode.workspace.getConfiguration('superdesign').get<CustomModelConfig[]>('customModels', []);
+}
+
+function findCustomModel(modelId: string): CustomModelConfig | undefined {
+    const name = modelId.slice(CUSTOM_MODEL_PREFIX.length);
+    return getCustomModels().find(model => model.name === name);
+}
+
+/**
+ * Registered providers, in model matching order.
+ * OpenAI matches every model id, so it has to stay last.
+ */
+const PROVIDERS: ProviderDefinition[] = [
+    {
+        id: 'scripted',
+        displayName: 'Scripted (offline)',
+        configureCommand: 'superdesign.selectScriptedTranscript',
+        defaultModel: `${SCRIPTED_MODEL_PREFIX}demo`,
+        defaultBaseUrl: '',
+        matchesModel: (modelId) => modelId.startsWith(SCRIPTED_MODEL_PREFIX),
+        createModel: (modelId) => {
+            const transcriptName = modelId.slice(SCRIPTED_MODEL_PREFIX.length);
+            return new ScriptedLanguageModel(modelId, resolveTranscriptPath(transcriptName));
+        }
+    },
+    {
+        id: 'custom',
+        displayName: 'Custom Endpoint',
+        apiKeySetting: 'customApiKey',
+        apiKeyOptional: true,
+        configureCommand: 'superdesign.configureCustomProvider',
+        get defaultModel() {
+            const firstModel = getCustomModels()[0];
+            return firstModel ? `${CUSTOM_MODEL_PREFIX}${firstModel.name}` : CUSTOM_MODEL_PREFIX;
+        },
+        get defaultBaseUrl() {
+            return vscode.workspace.getConfiguration('superdesign').get<string>('customBaseUrl', '');
+        },
+        matchesModel: (modelId) => modelId.startsWith(CUSTOM_MODEL_PREFIX),
+        createModel: (modelId, apiKey, endpoint) => {
+            if (!endpoint.baseUrl) {
+                throw new Error('Custom endpoint base URL not configured. Please run "Configure Custom OpenAI-Compatible Endpoint" command.');
+            }
+            return createOpenAI({
+                apiKey,
+                baseURL: endpoint.baseUrl,
+                headers: endpoint.headers,
+                compatibility: 'compatible'
+            })(modelId.slice(CUSTOM_MODEL_PREFIX.length));
+        },
+        getCapabilities: (modelId) => {
+            const model = findCustomModel(modelId);
+            return {
+                toolCalling: model?.toolCalling ?? true,
+                vision: model?.vision ?? false
+            };
+        }
+    },
+    {
+        id: 'openrouter',
+        displayName: 'OpenRouter',
+        apiKeySetting: 'openrouterApiKey',
+        configureCommand: 'superdesign.configureOpenRouterApiKey',
+        defaultModel: 'anthropic/claude-3-7-sonnet-20250219',
+        defaultBaseUrl: 'https://openrouter.ai/api/v1',
+        matchesModel: (modelId) => modelId.includes('/'),
+        createModel: (modelId, apiKey, endpoint) => createOpenRouter({
+            apiKey,
+            baseURL: endpoint.baseUrl,
+            headers: endpoint.headers
+        }).chat(modelId)
+    },
+    {
+        id: 'anthropic',
+        displayName: 'Anthropic',
+        apiKeySetting: 'anthropicApiKey',
+        configureCommand: 'superdesign.configureApiKey',
+        defaultModel: 'claude-3-5-sonnet-20241022',
+        defaultBaseUrl: 'https://api.anthropic.com/v1',
+        matchesModel: (modelId) => modelId.startsWith('claude-'),
+        createModel: (modelId, apiKey, endpoint) => createAnthropic({
+            apiKey,
+            baseURL: endpoint.baseUrl,
+            headers: endpoint.headers
+        })(modelId),
+        imageLimits: {
+            maxDimension: 1568,
+            maxBytes: 5 * MB,
+            maxImages: 100,
+            mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+        }
+    },
+    {
+        id: 'groq',
+        displayName: 'Groq',
+        apiKeySetting: 'groqApiKey',
+        configureCommand: 'superdesign.configureGroqApiKey',
+        defaultModel: 'llama-3.3-70b-versatile',
+        // Groq exposes an OpenAI-compatible API
+        defaultBaseUrl: 'https://api.groq.com/openai/v1',
+        matchesModel: (modelId) => /^(llama|mixtral|gemma|deepseek-r1-distill|qwen-qwq)/.test(modelId),
+        createModel: (modelId, apiKey, endpoint) => createOpenAI({
+            apiKey,
+            baseURL: endpoint.baseUrl,
+            headers: endpoint.headers,
+            compatibility: 'compatible'
+        })(modelId),
+        // Base64 images are limited to 4MB and five per request
+        imageLimits: {
+            maxDimension: 1568,
+            maxBytes: 4 * MB,
+            maxImages: 5,
+            mimeTypes: ['image/jpeg', 'image/png', 'image/webp']
+        }
+    },
+    {
+        id: 'openai',
+        displayName: 'OpenAI',
+        apiKeySetting: 'openaiApiKey',
+        configureCommand: 'superdesign.configureOpenAIApiKey',
+        defaultModel: 'gpt-4o',
+        defaultBaseUrl: 'https://api.openai.com/v1',
+        matchesModel: () => true,
+        createModel: (modelId, apiKey, endpoint) => createOpenAI({
+            apiKey,
+            baseURL: endpoint.baseUrl,
+            headers: endpoint.headers
+        })(modelId),
+        // High detail images are scaled to fit 2048x2048 on OpenAI's side
+        imageLimits: {
+            maxDimension: 2048,
+            maxBytes: 20 * MB,
+            maxImages: 10,
+            mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+        }
+    }
+];
+
+const DEFAULT_PROVIDER_ID = 'anthropic';
+
+export function getProviders(): ProviderDefinition[] {
+    return PROVIDERS;
+}
+
+export function getProvider(id: string): ProviderDefinition {
+    return PROVIDERS.find(provider => provider.id === id)
+        || PROVIDERS.find(provider => provider.id === DEFAULT_PROVIDER_ID)!;
+}
+
+/**
+ * Find the provider that serves a model id
+ */
+export function getProviderForModel(modelId: string): ProviderDefinition {
+    return PROVIDERS.find(provider => provider.matchesModel(modelId)) || getProvider(DEFAULT_PROVIDER_ID);
+}
+
+/**
+ * Resolve the provider and model currently selected in the superdesign settings.
+ * A specific model wins over the provider setting.
+ */
+export function resolveActiveProvider(): { provider: ProviderDefinition; model: string } {
+    const config = vscode.workspace.getConfiguration('superdesign');
+    const specificModel = config.get<string>('aiModel');
+
+    if (specificModel) {
+        return { provider: getProviderForModel(specificModel), model: specificModel };
+    }
+
+    const provider = getProvider(config.get<string>('aiModelProvider', DEFAULT_PROVIDER_ID));
+    return { provider, model: provider.defaultModel };
+}
+
+export async function getProviderApiKey(provider: ProviderDefinition): Promise<string | undefined> {
+    return provider.apiKeySetting ? ApiKeyStore.get(provider.apiKeySetting) : undefined;
+}
+
+export async function hasProviderApiKey(provider: ProviderDefinition): Promise<boolean> {
+    if (!provider.apiKeySetting || provider.apiKeyOptional) {
+        return true;
+    }
+    return ApiKeyStore.has(provider.apiKeySetting);
+}
+
+/**
+ * Resolve the base URL and extra headers for a provider. Requests go straight to the
+ * provider unless superdesign.providerEndpoints has an entry for its id.
+ */
+export function getProviderEndpoint(provider: ProviderDefinition): ProviderEndpoint {
+    const overrides = vscode.workspace.getConfiguration('superdesign')
+        .get<Record<string, ProviderEndpointOverride>>('providerEndpoints', {});
+    const override = overrides[provider.id];
+    const baseUrl = override?.baseUrl?.trim();
+
+    return {
+        baseUrl: (baseUrl || provider.defaultBaseUrl).replace(/\/+$/, ''),
+        headers: override?.headers || {},
+        isOverride: !!baseUrl || Object.keys(override?.headers || {}).length > 0
+    };
+}
+
+export function getModelCapabilities(provider: ProviderDefinition, modelId: string): ModelCapabilities {
+    return provider.getCapabilities ? provider.getCapabilities(modelId) : DEFAULT_CAPABILITIES;
+}
+
+export function getImageLimits(provider: ProviderDefinition): ImageLimits {
+    return provider.imageLimits || DEFAULT_IMAGE_LIMITS;
+}
@@ -0,0 +1,85 @@
+import { APICallError, RetryError } from 'ai';
+import * as vscode from 'vscode';
+
+export interface RetrySettings {
+    maxRetries: number;
+    fallbackModels: string[];
+}
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+// Anthropic reports overload as 529, some gateways use 408/409 for transient failures
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+const RETRYABLE_MESSAGE_PATTERNS = [
+    'overloaded',
+    'rate limit',
+    'rate_limit',
+    'too many requests',
+    'temporarily unavailable',
+    'econnreset',
+    'etimedout',
+    'socket hang up'
+];
+
+export function getRetrySettings(): RetrySettings {
+    const config = vscode.workspace.getConfiguration('superdesign');
+    return {
+        maxRetries: Math.max(0, config.get<number>('maxRetries', 2)),
+        fallbackModels: config.get<string[]>('fallbackModels', []).filter(model => !!model?.trim())
+    };
+}
+
+/**
+ * Whether an error from a model request is worth retrying (rate limits, server errors, overload)
+ */
+export function isRetryableError(error: unknown): boolean {
+    if (RetryError.isInstance(error)) {
+        return isRetryableError(error.lastError);
+    }
+
+    if (APICallError.isInstance(error)) {
+        if (error.statusCode !== undefined) {
+            return RETRYABLE_STATUS_CODES.has(error.statusCode) || error.statusCode >= 500;
+        }
+        return error.isRetryable;
+    }
+
+    const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+    return RETRYABLE_MESSAGE_PATTERNS.some(pattern => message.includes(pattern));
+}
+
+/**
+ * Exponential backoff with jitter. A retry-after header from the provider wins when present.
+ */
+export function getRetryDelayMs(error: unknown, attempt: number): number {
+    const apiError = RetryError.isInstance(error) ? error.lastError : error;
+    if (APICallError.isInstance(apiError)) {
+        const retryAfter = Number(apiError.responseHeaders?.['retry-after']);
+        if (Number.isFinite(retryAfter) && retryAfter > 0) {
+            return Math.min(retryAfter * 1000, MAX_DELAY_MS);
+        }
+    }
+
+    const exponential = BASE_DELAY_MS * Math.pow(2, attempt - 1);
+    const jitter = Math.random() * BASE_DELAY_MS / 2;
+    return Math.min(exponential + jitter, MAX_DELAY_MS);
+}
+
+export function getErrorMessage(error: unknown): string {
+    return (error as any)?.message || String(error) || 'Unknown error occurred';
+}
+
+/**
+ * Wait before the next attempt, resolving early if the request is aborted
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+}
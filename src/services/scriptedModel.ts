@@ -0,0 +1,286 @@
+import {
+    LanguageModelV1,
+    LanguageModelV1CallOptions,
+    LanguageModelV1Middleware,
+    LanguageModelV1StreamPart
+} from 'ai';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+export const SCRIPTED_MODEL_PREFIX = 'scripted:';
+
+const TRANSCRIPTS_DIR = path.join('.superdesign', 'transcripts');
+
+/**
+ * One line of a transcript: a language model stream part as the provider would emit it.
+ * Hand-written transcripts may pass tool call args as an object instead of a JSON string,
+ * and add { "type": "delay", "ms": 200 } lines to pace the replay.
+ * 'tool-result' lines are accepted for readability but skipped: tools really run on replay.
+ */
+type TranscriptLine =
+    | LanguageModelV1StreamPart
+    | { type: 'delay'; ms: number }
+    | { type: 'tool-result'; [key: string]: unknown };
+
+type TranscriptStep = LanguageModelV1StreamPart[];
+
+type FinishPart = Extract<LanguageModelV1StreamPart, { type: 'finish' }>;
+
+function getTranscriptsDirectory(): string | undefined {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    return workspaceRoot ? path.join(workspaceRoot, TRANSCRIPTS_DIR) : undefined;
+}
+
+// Transcripts shipped with the extension, like the 'demo' default. Assets sit in
+// dist/src/assets when bundled and in src/assets when running from compiled sources.
+function getBundledTranscriptsDirectory(): string | undefined {
+    return [
+        path.join(__dirname, 'src', 'assets', 'transcripts'),
+        path.join(__dirname, '..', '..', 'src', 'assets', 'transcripts')
+    ].find(directory => fs.existsSync(directory));
+}
+
+function listTranscriptNames(directory: string | undefined): string[] {
+    if (!directory || !fs.existsSync(directory)) {
+        return [];
+    }
+    return fs.readdirSync(directory)
+        .filter(file => file.endsWith('.jsonl'))
+        .map(file => file.slice(0, -'.jsonl'.length));
+}
+
+/**
+ * Transcript names are looked up in .superdesign/transcripts, then among the bundled
+ * transcripts; absolute paths are used as is
+ */
+export function resolveTranscriptPath(name: string): string {
+    if (path.isAbsolute(name)) {
+        return name;
+    }
+    const fileName = name.endsWith('.jsonl') ? name : `${name}.jsonl`;
+    const directory = getTranscriptsDirectory();
+    const workspacePath = directory && path.join(directory, fileName);
+    if (workspacePath && fs.existsSync(workspacePath)) {
+        return workspacePath;
+    }
+
+    const bundledDirectory = getBundledTranscriptsDirectory();
+    const bundledPath = bundledDirectory && path.join(bundledDirectory, fileName);
+    if (bundledPath && fs.existsSync(bundledPath)) {
+        return bundledPath;
+    }
+
+    if (!workspacePath) {
+        throw new Error('No workspace folder found. Scripted transcripts are read from .superdesign/transcripts.');
+    }
+    return workspacePath;
+}
+
+/**
+ * Transcripts in .superdesign/transcripts, followed by the bundled ones they don't override
+ */
+export function listTranscripts(): { name: string; bundled: boolean }[] {
+    const workspaceNames = listTranscriptNames(getTranscriptsDirectory());
+    const bundledNames = listTranscriptNames(getBundledTranscriptsDirectory())
+        .filter(name => !workspaceNames.includes(name));
+    return [
+        ...workspaceNames.map(name => ({ name, bundled: false })),
+        ...bundledNames.map(name => ({ name, bundled: true }))
+    ];
+}
+
+function normalizePart(line: TranscriptLine): LanguageModelV1StreamPart | { type: 'delay'; ms: number } | undefined {
+    switch (line.type) {
+        case 'tool-result':
+            return undefined;
+        case 'tool-call': {
+            const toolCall = line as any;
+            return {
+                ...toolCall,
+                toolCallType: toolCall.toolCallType || 'function',
+                args: typeof toolCall.args === 'string' ? toolCall.args : JSON.stringify(toolCall.args ?? {})
+            };
+        }
+        case 'finish': {
+            const finish = line as any;
+            return {
+                ...finish,
+                finishReason: finish.finishReason || 'stop',
+                // Missing counts are reported as NaN, like providers that don't return usage
+                usage: {
+                    promptTokens: finish.usage?.promptTokens ?? NaN,
+                    completionTokens: finish.usage?.completionTokens ?? NaN
+                }
+            };
+        }
+        default:
+            return line as LanguageModelV1StreamPart | { type: 'delay'; ms: number };
+    }
+}
+
+/**
+ * Language model that replays a JSONL transcript instead of calling a provider.
+ * Each 'finish' line ends a step; a call replays the step matching the number of
+ * assistant messages already in the prompt, so multi-step and multi-turn
+ * conversations line up with the recording.
+ */
+export class ScriptedLanguageModel implements LanguageModelV1 {
+    readonly specificationVersion = 'v1';
+    readonly provider = 'scripted';
+    readonly defaultObjectGenerationMode = undefined;
+
+    constructor(
+        readonly modelId: string,
+        private transcriptPath: string
+    ) {}
+
+    private async loadSteps(): Promise<TranscriptStep[]> {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.transcriptPath, 'utf8');
+        } catch (error) {
+            throw new Error(`Scripted transcript not found: ${this.transcriptPath}`);
+        }
+
+        const steps: TranscriptStep[] = [];
+        let current: TranscriptStep = [];
+
+        content.split('\n').forEach((rawLine, index) => {
+            const trimmed = rawLine.trim();
+            if (!trimmed) {
+                return;
+            }
+
+            let line: TranscriptLine;
+            try {
+                line = JSON.parse(trimmed);
+            } catch (error) {
+                throw new Error(`Invalid JSON on line ${index + 1} of ${path.basename(this.transcriptPath)}`);
+            }
+
+            const part = normalizePart(line);
+            if (!part) {
+                return;
+            }
+            current.push(part as LanguageModelV1StreamPart);
+            if (part.type === 'finish') {
+                steps.push(current);
+                current = [];
+            }
+        });
+
+        // A trailing step without a finish line still plays, ending as if the model stopped
+        if (current.length > 0) {
+            current.push(normalizePart({ type: 'finish' } as TranscriptLine) as LanguageModelV1StreamPart);
+            steps.push(current);
+        }
+
+        return steps;
+    }
+
+    private async getStep(options: LanguageModelV1CallOptions): Promise<TranscriptStep> {
+        const steps = await this.loadSteps();
+        const stepIndex = options.prompt.filter(message => message.role === 'assistant').length;
+
+        if (stepIndex >= steps.length) {
+            return [
+                { type: 'text-delta', textDelta: `[Scripted transcript ${path.basename(this.transcriptPath)} has no more steps]` },
+                { type: 'finish', finishReason: 'stop', usage: { promptTokens: NaN, completionTokens: NaN } }
+            ];
+        }
+        return steps[stepIndex];
+    }
+
+    async doStream(options: LanguageModelV1CallOptions) {
+        const step = await this.getStep(options);
+        const abortSignal = options.abortSignal;
+
+        const stream = new ReadableStream<LanguageModelV1StreamPart>({
+            async start(controller) {
+                for (const part of step) {
+                    if (abortSignal?.aborted) {
+                        break;
+                    }
+                    if ((part as any).type === 'delay') {
+                        await new Promise(resolve => setTimeout(resolve, (part as any).ms || 0));
+                        continue;
+                    }
+                    controller.enqueue(part);
+                }
+                controller.close();
+            }
+        });
+
+        return {
+            stream,
+            rawCall: { rawPrompt: options.prompt, rawSettings: { transcript: this.transcriptPath } }
+        };
+    }
+
+    async doGenerate(options: LanguageModelV1CallOptions) {
+        const step = await this.getStep(options);
+
+        let text = '';
+        const toolCalls: any[] = [];
+        let finishReason: FinishPart['finishReason'] = 'stop';
+        let usage = { promptTokens: NaN, completionTokens: NaN };
+
+        for (const part of step) {
+            if (part.type === 'text-delta') {
+                text += part.textDelta;
+            } else if (part.type === 'tool-call') {
+                toolCalls.push(part);
+            } else if (part.type === 'finish') {
+                finishReason = part.finishReason;
+                usage = part.usage;
+            }
+        }
+
+        return {
+            text,
+            toolCalls,
+            finishReason,
+            usage,
+            rawCall: { rawPrompt: options.prompt, rawSettings: { transcript: this.transcriptPath } }
+        };
+    }
+}
+
+/**
+ * Middleware that appends every stream part a real model emits to a transcript file,
+ * producing recordings the scripted provider can replay
+ */
+export function createTranscriptRecorder(transcriptPath: string): LanguageModelV1Middleware {
+    // Steps are appended in order even though the file writes are async
+    let pendingWrite: Promise<void> = fs.promises.mkdir(path.dirname(transcriptPath), { recursive: true }).then(() => undefined);
+
+    const appendStep = (parts: LanguageModelV1StreamPart[]) => {
+        const lines = parts.map(part => JSON.stringify(part) + '\n').join('');
+        pendingWrite = pendingWrite
+            .then(() => fs.promises.appendFile(transcriptPath, lines, 'utf8'))
+            .catch(() => undefined);
+    };
+
+    return {
+        wrapStream: async ({ doStream }) => {
+            const result = await doStream();
+            // A step is only written once it finishes, so a failed attempt that is
+            // retried doesn't leave half a step in the transcript
+            const step: LanguageModelV1StreamPart[] = [];
+            const recordingStream = result.stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+                transform(part, controller) {
+                    // Errors and per-call response metadata are not part of a replayable transcript
+                    if (part.type !== 'error' && part.type !== 'response-metadata') {
+                        step.push(part);
+                    }
+                    if (part.type === 'finish') {
+                        appendStep(step);
+                    }
+                    controller.enqueue(part);
+                }
+            }));
+            return { ...result, stream: recordingStream };
+        }
+    };
+}
@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Logger } from './logger';
+import { isDesignFile } from './designCritic';
+
+export interface SessionInfo {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messageCount: number;
+    // Session this one was branched from
+    parentId?: string;
+    // Design files written in this session, in the order they first appeared
+    designFiles: string[];
+}
+
+/**
+ * One line of a session file. The header comes first, followed by the chat
+ * messages in order, each with its tool calls, results and metadata.
+ */
+type SessionRecord =
+    | { type: 'session'; id: string; title: string; createdAt: number; parentId?: string; designFiles?: string[] }
+    | { type: 'message'; message: any };
+
+const SESSIONS_DIR = path.join('.superdesign', 'sessions');
+// Session ids become file names
+const SESSION_ID_PATTERN = /^[a-zA-Z0-9_-]{1,100}$/;
+const MAX_TITLE_LENGTH = 60;
+
+function getMessageText(message: any): string {
+    if (typeof message?.content === 'string') {
+        return message.content;
+    }
+    if (Array.isArray(message?.content)) {
+        return message.content.filter((part: any) => part.type === 'text').map((part: any) => part.text).join(' ');
+    }
+    return '';
+}
+
+function getTitle(messages: any[]): string {
+    const firstUserMessage = messages.find(message => message.role === 'user');
+    // Context prefixes added by the chat input are not a useful title
+    const text = getMessageText(firstUserMessage).replace(/^Context: .*\n\nMessage: /s, '').replace(/\s+/g, ' ').trim();
+    if (!text) {
+        return 'New conversation';
+    }
+    return text.length > MAX_TITLE_LENGTH ? `${text.substring(0, MAX_TITLE_LENGTH - 1)}…` : text;
+}
+
+// Design files from write/edit tool calls and variation groups. Claude Code's tools are capitalized.
+function getDesignFiles(messages: any[]): string[] {
+    const files = new Set<string>();
+    for (const message of messages) {
+        if (message.role === 'assistant' && Array.isArray(message.content)) {
+            for (const part of message.content) {
+                if (part.type === 'tool-call' && /^(write|edit|multiedit)$/i.test(part.toolName) && isDesignFile(part.args?.file_path)) {
+                    files.add(part.args.file_path);
+                }
+            }
+        }
+        for (const variation of message.metadata?.variation_group?.variations ?? []) {
+            if (variation.status === 'done' && isDesignFile(variation.file)) {
+                files.add(variation.file);
+            }
+        }
+    }
+    return Array.from(files);
+}
+
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+    return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId);
+}
+
+/**
+ * Chat sessions persisted by the extension host as JSONL files in
+ * .superdesign/sessions, one file per conversation
+ */
+export class SessionStore {
+    // Saves run one at a time so two writes never race on the same temporary file
+    private saveQueue: Promise<void> = Promise.resolve();
+
+    private getSessionsDir(): string | undefined {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return workspaceRoot ? path.join(workspaceRoot, SESSIONS_DIR) : undefined;
+    }
+
+    private getSessionPath(sessionId: string): string | undefined {
+        const sessionsDir = this.getSessionsDir();
+        if (!sessionsDir || !isValidSessionId(sessionId)) {
+            return undefined;
+        }
+        return path.join(sessionsDir, `${sessionId}.jsonl`);
+    }
+
+    /**
+     * Rewrite the session file with the current messages. Messages are updated in
+     * place while they stream, so the file is replaced rather than appended to.
+     */
+    saveSession(sessionId: string, messages: any[]): Promise<void> {
+        const save = this.saveQueue.then(() => this.writeSession(sessionId, messages));
+        this.saveQueue = save.catch(() => undefined);
+        return save;
+    }
+
+    /**
+     * Start a new session holding a copy of the messages up to the branch point
+     */
+    async forkSession(parentId: string, messages: any[]): Promise<SessionInfo> {
+        const sessionId = `session_${Date.now()}`;
+        const fork = this.saveQueue.then(() => this.writeSession(sessionId, messages, parentId));
+        this.saveQueue = fork.catch(() => undefined);
+        await fork;
+
+        const forked = await this.loadSession(sessionId);
+        if (!forked) {
+            throw new Error('No workspace folder is open to save the branch in');
+        }
+        return forked.info;
+    }
+
+    private async writeSession(sessionId: string, messages: any[], parentId?: string): Promise<void> {
+        const sessionPath = this.getSessionPath(sessionId);
+        if (!sessionPath) {
+            return;
+        }
+
+        let createdAt = Date.now();
+        const existing = await this.readRecords(sessionPath);
+        const header = existing?.find(record => record.type === 'session');
+        if (header?.type === 'session') {
+            createdAt = header.createdAt;
+            parentId = parentId ?? header.parentId;
+        }
+
+        const records: SessionRecord[] = [
+            { type: 'session', id: sessionId, title: getTitle(messages), createdAt, parentId, designFiles: getDesignFiles(messages) },
+            ...messages.map(message => ({ type: 'message' as const, message }))
+        ];
+
+        // Written to a temporary file first so a crash never leaves half a session
+        const temporaryPath = `${sessionPath}.tmp`;
+        await fs.promises.mkdir(path.dirname(sessionPath), { recursive: true });
+        await fs.promises.writeFile(temporaryPath, records.map(record => JSON.stringify(record)).join('\n') + '\n', 'utf8');
+        await fs.promises.rename(temporaryPath, sessionPath);
+    }
+
+    async loadSession(sessionId: string): Promise<{ info: SessionInfo; messages: any[] } | undefined> {
+        const sessionPath = this.getSessionPath(sessionId);
+        if (!sessionPath) {
+            return undefined;
+        }
+
+        const records = await this.readRecords(sessionPath);
+        if (!records) {
+            return undefined;
+        }
+
+        const messages = records.flatMap(record => record.type === 'message' ? [record.message] : []);
+        const stats = await fs.promises.stat(sessionPath);
+        return { info: this.toSessionInfo(sessionId, records, stats.mtimeMs), messages };
+    }
+
+    /**
+     * Sessions in this workspace with at least one message, most recently updated first
+     */
+    async listSessions(): Promise<SessionInfo[]> {
+        return (await this.readSessionInfos()).filter(session => session.messageCount > 0);
+    }
+
+    /**
+     * The session to resume. It can be empty when the chat was cleared last.
+     */
+    async getLatestSession(): Promise<{ info: SessionInfo; messages: any[] } | undefined> {
+        const [latest] = await this.readSessionInfos();
+        return latest ? this.loadSession(latest.id) : undefined;
+    }
+
+    private async readSessionInfos(): Promise<SessionInfo[]> {
+        const sessionsDir = this.getSessionsDir();
+        if (!sessionsDir) {
+            return [];
+        }
+
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(sessionsDir);
+        } catch {
+            return [];
+        }
+
+        const sessions: SessionInfo[] = [];
+        for (const file of files.filter(file => file.endsWith('.jsonl'))) {
+            const sessionId = file.slice(0, -'.jsonl'.length);
+            const sessionPath = path.join(sessionsDir, file);
+            const records = await this.readRecords(sessionPath);
+            if (records) {
+                const stats = await fs.promises.stat(sessionPath);
+                sessions.push(this.toSessionInfo(sessionId, records, stats.mtimeMs));
+            }
+        }
+        return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    private toSessionInfo(sessionId: string, records: SessionRecord[], updatedAt: number): SessionInfo {
+        const header = records.find(record => record.type === 'session');
+        const messages = records.flatMap(record => record.type === 'message' ? [record.message] : []);
+        return {
+            id: sessionId,
+            title: header?.type === 'session' ? header.title : getTitle(messages),
+            createdAt: header?.type === 'session' ? header.createdAt : updatedAt,
+            updatedAt,
+            messageCount: messages.length,
+            parentId: header?.type === 'session' ? header.parentId : undefined,
+            designFiles: header?.type === 'session' && header.designFiles ? header.designFiles : getDesignFiles(messages)
+        };
+    }
+
+    // Lines that fail to parse are skipped, the rest of the session is still usable
+    private async readRecords(sessionPath: string): Promise<SessionRecord[] | undefined> {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(sessionPath, 'utf8');
+        } catch {
+            return undefined;
+        }
+
+        const records: SessionRecord[] = [];
+        content.split('\n').forEach((line, index) => {
+            if (!line.trim()) {
+                return;
+            }
+            try {
+                records.push(JSON.parse(line));
+            } catch {
+                Logger.warn(`Skipping malformed line ${index + 1} in ${sessionPath}`);
+            }
+        });
+        return records;
+    }
+}
@@ -0,0 +1,124 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { Logger } from './logger';
+
+/**
+ * A /command in the chat input. The template is expanded in the webview:
+ * {{args}} is everything after the command name, {{1}}, {{2}}... single
+ * arguments, and {{name|fallback}} uses the fallback when the value is empty.
+ */
+export interface SlashCommand {
+    name: string;
+    description: string;
+    argumentHint?: string;
+    template: string;
+    source: 'builtin' | 'workspace';
+    // Sent as parallel variations, the first argument is the count
+    variations?: boolean;
+}
+
+const COMMANDS_DIR = 'commands';
+const COMMAND_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,40}$/;
+
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+    {
+        name: 'variations',
+        description: 'Generate several designs in parallel, each in its own direction',
+        argumentHint: '<count> <what to design>',
+        template: '{{args|Create more variations based on the style of the design in context}}',
+        source: 'builtin',
+        variations: true
+    },
+    {
+        name: 'theme',
+        description: 'Design a theme (colors, fonts, spacing, shadows) and save it as CSS',
+        argumentHint: '<style or product>',
+        template: 'Design a theme for {{args|this project}}: colors, fonts, spacing, radii and shadows. Use the generateTheme tool to save it as a CSS file in design_iterations, then explain the key choices briefly.',
+        source: 'builtin'
+    },
+    {
+        name: 'component',
+        description: 'Design a single component on a fitting background',
+        argumentHint: '<component>',
+        template: 'Design a single {{args}} component, not a full page. Show its main states (default, hover, active, disabled where they apply) on a background that contrasts with the component, and save it as one html file in design_iterations.',
+        source: 'builtin'
+    },
+    {
+        name: 'mobile',
+        description: 'Adapt a design for mobile screens',
+        argumentHint: '[design or screen]',
+        template: 'Create a mobile version of {{args|the design in context}} for a 375px wide screen. Rework navigation, spacing and touch targets (at least 44px) for mobile instead of just shrinking the desktop layout, and save it as a new file in design_iterations.',
+        source: 'builtin'
+    },
+    {
+        name: 'iterate',
+        description: 'Create a new iteration of the design in context',
+        argumentHint: '<feedback>',
+        template: 'Create a new iteration of the design in context with this feedback: {{args|make it more polished}}. Keep what already works, and save it as a new file named {current_file_name}_{n}.html instead of overwriting the original.',
+        source: 'builtin'
+    }
+];
+
+function parseCommandFile(name: string, content: string): SlashCommand {
+    let metadata: Record<string, unknown> = {};
+    let template = content;
+
+    // Optional YAML front matter with description and argument-hint
+    const frontMatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (frontMatter) {
+        const parsed = yaml.load(frontMatter[1]);
+        if (parsed && typeof parsed === 'object') {
+            metadata = parsed as Record<string, unknown>;
+        }
+        template = content.slice(frontMatter[0].length);
+    }
+
+    template = template.trim();
+    if (!template) {
+        throw new Error('the prompt template is empty');
+    }
+
+    return {
+        name,
+        description: typeof metadata.description === 'string' ? metadata.description : template.split('\n')[0].substring(0, 80),
+        argumentHint: typeof metadata['argument-hint'] === 'string' ? metadata['argument-hint'] : undefined,
+        template,
+        source: 'workspace'
+    };
+}
+
+/**
+ * Built-in commands plus the workspace's .superdesign/commands/<name>.md files,
+ * which replace a built-in command of the same name
+ */
+export async function loadSlashCommands(workspaceRoot: string | undefined): Promise<SlashCommand[]> {
+    const commands = new Map(BUILTIN_COMMANDS.map(command => [command.name, command]));
+    if (!workspaceRoot) {
+        return Array.from(commands.values());
+    }
+
+    const commandsDir = path.join(workspaceRoot, '.superdesign', COMMANDS_DIR);
+    let entries: string[];
+    try {
+        entries = await fs.promises.readdir(commandsDir);
+    } catch {
+        return Array.from(commands.values());
+    }
+
+    for (const file of entries.filter(entry => entry.endsWith('.md')).sort()) {
+        const name = file.slice(0, -'.md'.length);
+        if (!COMMAND_NAME_PATTERN.test(name)) {
+            Logger.warn(`Skipping slash command ${file}: names may only use letters, digits, "_" and "-"`);
+            continue;
+        }
+        try {
+            const content = await fs.promises.readFile(path.join(commandsDir, file), 'utf8');
+            commands.set(name, parseCommandFile(name, content));
+        } catch (error) {
+            Logger.warn(`Skipping slash command ${file}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    return Array.from(commands.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
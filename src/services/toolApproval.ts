@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Tool } from 'ai';
+import { handleToolError } from '../tools/tool-utils';
+
+/**
+ * 'allow' runs the tool without asking, 'ask' asks every time, 'superdesign'
+ * runs it without asking as long as it stays inside .superdesign/ and asks otherwise
+ */
+export type ToolApprovalPolicy = 'allow' | 'ask' | 'superdesign';
+
+// 'always' approves this call and every later call of the same tool in this session
+export type ToolApprovalDecision = 'approve' | 'deny' | 'always';
+
+export interface ToolApprovalRequest {
+    toolCallId: string;
+    toolName: string;
+    args: any;
+    // Why the user is being asked, shown on the approval card
+    reason: string;
+}
+
+export type ToolApprovalHandler = (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+
+// Tools that are not listed here or in superdesign.toolApproval, such as declared
+// workspace tools and MCP tools, ask before every call
+const DEFAULT_POLICIES: Record<string, ToolApprovalPolicy> = {
+    read: 'allow',
+    glob: 'allow',
+    grep: 'allow',
+    ls: 'allow',
+    bash: 'ask',
+    write: 'superdesign',
+    edit: 'superdesign',
+    multiedit: 'superdesign',
+    generateTheme: 'superdesign'
+};
+
+// Argument holding the path each gated tool touches
+const PATH_ARGUMENTS: Record<string, string> = {
+    bash: 'directory',
+    write: 'file_path',
+    edit: 'file_path',
+    multiedit: 'file_path',
+    generateTheme: 'cssFilePath'
+};
+
+/**
+ * The user's configured policy for the tool, otherwise the given default.
+ * Without one, built-in tools use DEFAULT_POLICIES and anything else asks.
+ */
+export function getToolApprovalPolicy(toolName: string, defaultPolicy?: ToolApprovalPolicy): ToolApprovalPolicy {
+    const configured = vscode.workspace.getConfiguration('superdesign').get<Record<string, string>>('toolApproval', {});
+    const policy = configured[toolName] ?? defaultPolicy ?? DEFAULT_POLICIES[toolName] ?? 'ask';
+    if (policy === 'allow' || policy === 'ask') {
+        return policy;
+    }
+    // 'superdesign' needs to know which path the tool touches
+    return policy === 'superdesign' && toolName in PATH_ARGUMENTS ? 'superdesign' : 'ask';
+}
+
+function isInsideSuperdesign(targetPath: string, workingDirectory: string): boolean {
+    const superdesignDir = vscode.workspace.workspaceFolders?.[0]
+        ? path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, '.superdesign')
+        : workingDirectory;
+    const resolved = path.resolve(workingDirectory, targetPath);
+    const relative = path.relative(superdesignDir, resolved);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// A shell command can reach anything, so it only counts as contained without absolute, home or parent paths
+function isContainedCommand(command: unknown): boolean {
+    return typeof command === 'string' && !/(^|[\s'"=:])(\/|~|\.\.)/.test(command);
+}
+
+/**
+ * Reason to ask the user before running this call, or undefined when its
+ * policy lets it run
+ */
+export function getApprovalReason(toolName: string, args: any, workingDirectory: string, defaultPolicy?: ToolApprovalPolicy): string | undefined {
+    const policy = getToolApprovalPolicy(toolName, defaultPolicy);
+    if (policy === 'allow') {
+        return undefined;
+    }
+    if (policy === 'ask') {
+        return `${toolName} requires approval`;
+    }
+
+    const targetPath = args?.[PATH_ARGUMENTS[toolName]] ?? '.';
+    if (typeof targetPath !== 'string' || !isInsideSuperdesign(targetPath, workingDirectory)) {
+        return `${toolName} targets ${targetPath}, outside .superdesign/`;
+    }
+    if (toolName === 'bash' && !isContainedCommand(args?.command)) {
+        return 'bash command references paths outside .superdesign/';
+    }
+    return undefined;
+}
+
+/**
+ * Wrap each tool's execute so calls that need approval wait for the user's
+ * decision first. Without a handler there is nobody to ask and they are denied.
+ * defaultPolicy applies to every tool the user hasn't configured a policy for.
+ */
+export function withToolApproval<T extends Record<string, Tool>>(
+    tools: T,
+    workingDirectory: string,
+    requestApproval?: ToolApprovalHandler,
+    defaultPolicy?: ToolApprovalPolicy
+): T {
+    const wrapped: Record<string, Tool> = {};
+    for (const [toolName, tool] of Object.entries(tools)) {
+        const execute = tool.execute;
+        if (!execute) {
+            wrapped[toolName] = tool;
+            continue;
+        }
+
+        wrapped[toolName] = {
+            ...tool,
+            execute: async (args: any, options) => {
+                const reason = getApprovalReason(toolName, args, workingDirectory, defaultPolicy);
+                if (reason) {
+                    const decision = requestApproval
+                        ? await requestApproval({ toolCallId: options.toolCallId, toolName, args, reason })
+                        : 'deny';
+                    if (decision === 'deny') {
+                        return handleToolError(`The user denied this ${toolName} call (${reason}). Do not retry it, ask the user how to proceed instead.`, 'Permission', 'permission');
+                    }
+                }
+                return execute(args, options);
+            }
+        };
+    }
+    return wrapped as T;
+}
@@ -0,0 +1,144 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { Logger } from './logger';
+import { findCatalogModel } from './modelCatalog';
+
+/**
+ * Token counts reported by the provider for one model step
+ */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * Usage of one model step, as sent to the webview
+ */
+export interface StepUsage extends TokenUsage {
+    model: string;
+    costUsd?: number;
+    durationMs: number;
+}
+
+interface UsageTotals extends TokenUsage {
+    costUsd: number;
+    requests: number;
+    // Requests whose model has no known price, so costUsd undercounts them
+    unpricedRequests: number;
+}
+
+export interface WorkspaceUsage {
+    totals: UsageTotals;
+    models: Record<string, UsageTotals>;
+    days: Record<string, UsageTotals>;
+    updatedAt?: string;
+}
+
+/**
+ * Price a step's token usage. Returns undefined for models without a known price
+ * (custom endpoints, new models) rather than guessing.
+ */
+export function calculateCost(modelId: string, usage: TokenUsage): number | undefined {
+    const price = findCatalogModel(modelId)?.price;
+    if (!price) {
+        return undefined;
+    }
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+    return { inputTokens: 0, outputTokens: 0, costUsd: 0, requests: 0, unpricedRequests: 0 };
+}
+
+function addToTotals(totals: UsageTotals | undefined, usage: StepUsage): UsageTotals {
+    const next = totals ? { ...totals } : emptyTotals();
+    next.inputTokens += usage.inputTokens;
+    next.outputTokens += usage.outputTokens;
+    next.costUsd += usage.costUsd ?? 0;
+    next.requests += 1;
+    if (usage.costUsd === undefined) {
+        next.unpricedRequests += 1;
+    }
+    return next;
+}
+
+/**
+ * Running token and cost totals for a workspace, persisted in .superdesign/usage.json
+ */
+export class UsageTracker {
+    private static readonly FILE_NAME = 'usage.json';
+
+    // Writes are chained so concurrent queries don't overwrite each other's totals
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    constructor(private workingDirectory: string) {}
+
+    private get filePath(): string {
+        return path.join(this.workingDirectory, UsageTracker.FILE_NAME);
+    }
+
+    async read(): Promise<WorkspaceUsage> {
+        await this.pendingWrite;
+        try {
+            return await this.load();
+        } catch (error) {
+            Logger.warn(`Failed to read token usage: ${error}`);
+            return { totals: emptyTotals(), models: {}, days: {} };
+        }
+    }
+
+    record(usage: StepUsage): Promise<void> {
+        this.pendingWrite = this.pendingWrite.then(async () => {
+            try {
+                const current = await this.load();
+                const day = new Date().toISOString().slice(0, 10);
+
+                const updated: WorkspaceUsage = {
+                    totals: addToTotals(current.totals, usage),
+                    models: { ...current.models, [usage.model]: addToTotals(current.models[usage.model], usage) },
+                    days: { ...current.days, [day]: addToTotals(current.days[day], usage) },
+                    updatedAt: new Date().toISOString()
+                };
+
+                // Written to a temporary file first so a crash never leaves a truncated usage.json;
+                // the pid keeps the CLI and the extension from sharing one
+                const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+                await fs.promises.writeFile(temporaryPath, JSON.stringify(updated, null, 2), 'utf8');
+                await fs.promises.rename(temporaryPath, this.filePath);
+            } catch (error) {
+                Logger.warn(`Failed to record token usage: ${error}`);
+            }
+        });
+        return this.pendingWrite;
+    }
+
+    // Only a missing file means no usage yet; a file that can't be read is never overwritten
+    private async load(): Promise<WorkspaceUsage> {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return { totals: emptyTotals(), models: {}, days: {} };
+            }
+            throw error;
+        }
+
+        let parsed: Partial<WorkspaceUsage>;
+        try {
+            parsed = JSON.parse(content);
+        } catch (error) {
+            // Moved aside so the history can still be recovered by hand
+            const backupPath = `${this.filePath}.${Date.now()}.bak`;
+            await fs.promises.rename(this.filePath, backupPath);
+            Logger.warn(`${this.filePath} could not be parsed (${error}), moved it to ${backupPath} and started new totals`);
+            return { totals: emptyTotals(), models: {}, days: {} };
+        }
+        return {
+            totals: parsed.totals || emptyTotals(),
+            models: parsed.models || {},
+            days: parsed.days || {},
+            updatedAt: parsed.updatedAt
+        };
+    }
+}
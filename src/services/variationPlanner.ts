@@ -0,0 +1,97 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+export const MIN_VARIATIONS = 2;
+export const MAX_VARIATIONS = 6;
+
+// One direction per run so parallel variations don't converge on the same design
+const VARIATION_DIRECTIONS = [
+    'Minimal and airy: generous whitespace, restrained palette, quiet typography',
+    'Bold and high-contrast: expressive display typography, strong color blocking',
+    'Soft and friendly: rounded shapes, gentle gradients, warm accents',
+    'Dense and structured: information-rich layout, clear grid, compact components',
+    'Editorial: serif headlines, asymmetric layout, magazine-like rhythm',
+    'Dark and atmospheric: dark surfaces, subtle glow accents, layered depth'
+];
+
+export interface VariationPlan {
+    index: number;
+    direction: string;
+    // Relative to the agent's working directory (.superdesign)
+    outputFile: string;
+}
+
+export function clampVariationCount(count: unknown): number {
+    const parsed = Math.round(Number(count));
+    if (!Number.isFinite(parsed)) {
+        return MIN_VARIATIONS;
+    }
+    return Math.min(MAX_VARIATIONS, Math.max(MIN_VARIATIONS, parsed));
+}
+
+function slugify(prompt: string): string {
+    // Hyphens, not underscores: underscores mark versions in design file names
+    const slug = prompt
+        .toLowerCase()
+        .replace(/[^a-z0-9\s-]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word.length > 2)
+        .slice(0, 3)
+        .join('-');
+    return slug || 'design';
+}
+
+/**
+ * Base name the variations are numbered from. Iterating on an existing design
+ * (ui_1.html) makes them its children (ui_1_1, ui_1_2, ...), otherwise they are
+ * new root designs named after the prompt.
+ */
+function getBaseName(prompt: string, contextFile?: string): string {
+    if (contextFile && /\.(html|svg)$/i.test(contextFile)) {
+        return path.basename(contextFile).replace(/\.[^.]+$/, '');
+    }
+    return slugify(prompt);
+}
+
+/**
+ * Reserve distinct output files for each variation up front, numbered after any
+ * existing versions, so concurrent runs never write to the same file and the
+ * canvas shows the results as siblings
+ */
+export function planVariations(workingDirectory: string, prompt: string, count: number, contextFile?: string): VariationPlan[] {
+    const designDirectory = path.join(workingDirectory, 'design_iterations');
+    const baseName = getBaseName(prompt, contextFile);
+    const extension = contextFile && /\.svg$/i.test(contextFile) ? 'svg' : 'html';
+
+    let existing: string[] = [];
+    try {
+        existing = fs.readdirSync(designDirectory);
+    } catch {
+        // No designs yet
+    }
+
+    const versionPattern = new RegExp(`^${baseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}_(\\d+)\\.`);
+    const lastVersion = existing.reduce((highest, file) => {
+        const match = file.match(versionPattern);
+        return match ? Math.max(highest, Number(match[1])) : highest;
+    }, 0);
+
+    return Array.from({ length: count }, (_, index) => ({
+        index,
+        direction: VARIATION_DIRECTIONS[index % VARIATION_DIRECTIONS.length],
+        outputFile: `design_iterations/${baseName}_${lastVersion + index + 1}.${extension}`
+    }));
+}
+
+/**
+ * Instructions appended to the user's request for one variation run
+ */
+export function buildVariationInstructions(plan: VariationPlan, total: number): string {
+    return `[Variation ${plan.index + 1} of ${total}]
+You are one of ${total} agents designing variations of this request in parallel.
+- Design direction for this variation: ${plan.direction}
+- Save the design to exactly '${plan.outputFile}', do not create or edit any other design file
+- If you generate a theme, save it as '${plan.outputFile.replace(/\.[^.]+$/, '')}_theme.css' so it doesn't collide with the other variations
+- Skip the step-by-step confirmations of the usual workflow: decide the layout, theme and animations yourself and write the finished design in this run
+- Keep your reply short: one or two sentences describing what makes this variation distinct`;
+}
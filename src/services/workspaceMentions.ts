@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+export type MentionKind = 'design' | 'theme' | 'moodboard' | 'file';
+
+export interface MentionCandidate {
+    // Relative to the workspace root, with forward slashes
+    path: string;
+    kind: MentionKind;
+}
+
+/**
+ * Content of a mentioned file, ready to become a text or image part of the message
+ */
+export interface MentionedFile {
+    path: string;
+    type: 'text' | 'image';
+    text?: string;
+    // Base64 without the data: prefix, as the AI SDK image part expects
+    image?: string;
+    mimeType?: string;
+    truncated?: boolean;
+    error?: string;
+}
+
+const EXCLUDE_PATTERN = '**/{node_modules,.git,dist,out,build}/**';
+const MAX_INDEXED_FILES = 5000;
+// The file list is reused while the user keeps typing after @
+const INDEX_TTL_MS = 10000;
+const MAX_CANDIDATES = 30;
+const MAX_TEXT_CHARS = 60000;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp'
+};
+
+// Superdesign's own files are listed before the rest of the workspace
+const KIND_ORDER: MentionKind[] = ['design', 'theme', 'moodboard', 'file'];
+
+let index: { files: Promise<string[]>; createdAt: number } | undefined;
+
+function getWorkspaceRoot(): string | undefined {
+    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+}
+
+export function getMentionKind(relativePath: string): MentionKind {
+    const extension = path.extname(relativePath).toLowerCase();
+    if (relativePath.startsWith('.superdesign/design_iterations/')) {
+        return extension === '.css' ? 'theme' : 'design';
+    }
+    if (relativePath.startsWith('.superdesign/moodboard/')) {
+        return 'moodboard';
+    }
+    return 'file';
+}
+
+function getIndexedFiles(): Promise<string[]> {
+    if (!index || Date.now() - index.createdAt > INDEX_TTL_MS) {
+        const workspaceRoot = getWorkspaceRoot();
+        const files = Promise.resolve(vscode.workspace.findFiles('**/*', EXCLUDE_PATTERN, MAX_INDEXED_FILES))
+            .then(uris => uris.map(uri => path.relative(workspaceRoot ?? '', uri.fsPath).split(path.sep).join('/')));
+        index = { files, createdAt: Date.now() };
+    }
+    return index.files;
+}
+
+/**
+ * Workspace files whose path contains the query, for @ autocomplete
+ */
+export async function searchMentionCandidates(query: string): Promise<MentionCandidate[]> {
+    if (!getWorkspaceRoot()) {
+        return [];
+    }
+
+    const normalizedQuery = query.toLowerCase();
+    const matches = (await getIndexedFiles())
+        .filter(file => file.toLowerCase().includes(normalizedQuery))
+        .map(file => ({ path: file, kind: getMentionKind(file) }));
+
+    const nameMatches = (candidate: MentionCandidate) => path.posix.basename(candidate.path).toLowerCase().startsWith(normalizedQuery);
+    return matches
+        .sort((a, b) =>
+            KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+            Number(nameMatches(b)) - Number(nameMatches(a)) ||
+            a.path.length - b.path.length
+        )
+        .slice(0, MAX_CANDIDATES);
+}
+
+function isInsideDirectory(directory: string, target: string): boolean {
+    const relative = path.relative(directory, target);
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+async function readMentionedFile(workspaceRoot: string, relativePath: string): Promise<MentionedFile> {
+    // Paths come from the webview. Symlinks are resolved too, so one can't lead out of the workspace.
+    if (!isInsideDirectory(workspaceRoot, path.resolve(workspaceRoot, relativePath))) {
+        return { path: relativePath, type: 'text', error: 'outside the workspace' };
+    }
+
+    try {
+        const absolutePath = await fs.promises.realpath(path.resolve(workspaceRoot, relativePath));
+        if (!isInsideDirectory(await fs.promises.realpath(workspaceRoot), absolutePath)) {
+            return { path: relativePath, type: 'text', error: 'outside the workspace' };
+        }
+
+        const mimeType = IMAGE_MIME_TYPES[path.extname(absolutePath).toLowerCase()];
+        if (mimeType) {
+            const data = await fs.promises.readFile(absolutePath);
+            return { path: relativePath, type: 'image', image: data.toString('base64'), mimeType };
+        }
+
+        const content = await fs.promises.readFile(absolutePath, 'utf8');
+        if (content.includes('\u0000')) {
+            return { path: relativePath, type: 'text', error: 'binary file' };
+        }
+        return content.length > MAX_TEXT_CHARS
+            ? { path: relativePath, type: 'text', text: content.slice(0, MAX_TEXT_CHARS), truncated: true }
+            : { path: relativePath, type: 'text', text: content };
+    } catch (error) {
+        return { path: relativePath, type: 'text', error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+/**
+ * Read the mentioned files when the message is sent. Images come back as base64,
+ * everything else as text; files that can't be attached carry an error instead.
+ */
+export async function readMentionedFiles(paths: string[]): Promise<MentionedFile[]> {
+    const workspaceRoot = getWorkspaceRoot();
+    if (!workspaceRoot) {
+        return paths.map(file => ({ path: file, type: 'text' as const, error: 'no workspace folder is open' }));
+    }
+    return Promise.all(paths.map(file => readMentionedFile(workspaceRoot, file)));
+}
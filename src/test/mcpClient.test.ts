@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { McpManager, McpServerConfig } from '../services/mcpClient';
+
+// Smallest stdio MCP server: one "echo" tool, and a marker file to show it started
+const ECHO_SERVER = `
+const fs = require('fs');
+const readline = require('readline');
+fs.writeFileSync(process.argv[2], 'started');
+const reply = (id, result) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, result }) + '\\n');
+readline.createInterface({ input: process.stdin }).on('line', line => {
+	const message = JSON.parse(line);
+	if (message.method === 'initialize') {
+		reply(message.id, { protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'echo', version: '1.0.0' } });
+	} else if (message.method === 'tools/list') {
+		reply(message.id, { tools: [{ name: 'echo', description: 'Echo the text back', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } }] });
+	} else if (message.method === 'tools/call') {
+		reply(message.id, { content: [{ type: 'text', text: 'echo: ' + message.params.arguments.text }] });
+	}
+});
+`;
+
+suite('MCP servers', () => {
+	const config = () => vscode.workspace.getConfiguration('superdesign');
+	let previousTimeout: number | undefined;
+	let superdesignDir: string;
+	let serverPath: string;
+	let manager: McpManager | undefined;
+
+	const writeServers = (servers: Record<string, McpServerConfig>) => {
+		fs.writeFileSync(path.join(superdesignDir, 'mcp.json'), JSON.stringify({ mcpServers: servers }));
+	};
+	const markerPath = (name: string) => path.join(superdesignDir, `${name}.started`);
+
+	suiteSetup(async () => {
+		previousTimeout = config().inspect<number>('mcpConnectTimeout')?.globalValue;
+		await config().update('mcpConnectTimeout', 1000, vscode.ConfigurationTarget.Global);
+		superdesignDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'superdesign-mcp-')), '.superdesign');
+		fs.mkdirSync(superdesignDir);
+		serverPath = path.join(superdesignDir, 'echo-server.js');
+		fs.writeFileSync(serverPath, ECHO_SERVER);
+	});
+
+	teardown(() => {
+		manager?.dispose();
+		manager = undefined;
+	});
+
+	suiteTeardown(async () => {
+		await config().update('mcpConnectTimeout', previousTimeout, vscode.ConfigurationTarget.Global);
+		fs.rmSync(path.dirname(superdesignDir), { recursive: true, force: true });
+	});
+
+	test('tools of a confirmed workspace server are namespaced and callable', async () => {
+		writeServers({ echo: { command: process.execPath, args: [serverPath, markerPath('echo')] } });
+		const confirmed: string[] = [];
+		manager = new McpManager(async name => {
+			confirmed.push(name);
+			return true;
+		});
+
+		const tools = await manager.getTools(superdesignDir);
+
+		assert.deepStrictEqual(Object.keys(tools), ['mcp_echo_echo']);
+		const result = await tools.mcp_echo_echo.execute!({ text: 'hello' }, { toolCallId: 'call_1', messages: [] });
+		assert.deepStrictEqual(result.content, [{ type: 'text', text: 'echo: hello' }]);
+
+		// The connection is reused, and the user is asked once
+		await manager.getTools(superdesignDir);
+		assert.deepStrictEqual(confirmed, ['echo']);
+	});
+
+	test('a declined workspace server is never started', async () => {
+		writeServers({ declined: { command: process.execPath, args: [serverPath, markerPath('declined')] } });
+		manager = new McpManager(async () => false);
+
+		const tools = await manager.getTools(superdesignDir);
+
+		assert.deepStrictEqual(tools, {});
+		assert.ok(!fs.existsSync(markerPath('declined')));
+	});
+
+	test('a server that never answers times out and is not retried', async function () {
+		this.timeout(5000);
+		writeServers({ silent: { command: process.execPath, args: ['-e', 'setInterval(() => undefined, 1000)'] } });
+		let asked = 0;
+		manager = new McpManager(async () => {
+			asked++;
+			return true;
+		});
+
+		const started = Date.now();
+		assert.deepStrictEqual(await manager.getTools(superdesignDir), {});
+		assert.ok(Date.now() - started < 3000, 'gave up after the connect timeout');
+
+		assert.deepStrictEqual(await manager.getTools(superdesignDir), {});
+		assert.strictEqual(asked, 1);
+	});
+});
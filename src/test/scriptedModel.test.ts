@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CustomAgentService } from '../services/customAgentService';
+import { getModelCatalog } from '../services/modelCatalog';
+import { createTranscriptRecorder } from '../services/scriptedModel';
+import { AgentStreamEvent } from '../types/agent';
+
+// Replays transcripts through the real agent loop and tools, no provider involved
+suite('Scripted transcripts', () => {
+	const config = () => vscode.workspace.getConfiguration('superdesign');
+	let previousModel: string | undefined;
+	let outputChannel: vscode.OutputChannel;
+	let transcriptsDir: string;
+
+	const query = async (model: string, prompt: string) => {
+		await config().update('aiModel', model, vscode.ConfigurationTarget.Global);
+		const agent = new CustomAgentService(outputChannel);
+		const streamed: AgentStreamEvent[] = [];
+		const events = await agent.query(prompt, undefined, undefined, undefined, event => streamed.push(event));
+		agent.dispose();
+		return { events, streamed };
+	};
+
+	suiteSetup(() => {
+		previousModel = config().inspect<string>('aiModel')?.globalValue;
+		outputChannel = vscode.window.createOutputChannel('Superdesign Tests');
+		transcriptsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'superdesign-transcripts-'));
+	});
+
+	suiteTeardown(async () => {
+		await config().update('aiModel', previousModel, vscode.ConfigurationTarget.Global);
+		outputChannel.dispose();
+		fs.rmSync(transcriptsDir, { recursive: true, force: true });
+	});
+
+	test('the bundled demo transcript writes a design through the write tool', async () => {
+		const { events, streamed } = await query('scripted:demo', 'Design a landing page');
+
+		assert.deepStrictEqual(streamed, events);
+		assert.ok(!events.some(event => event.type === 'error'), 'no error events');
+
+		const toolCall = events.find(event => event.type === 'tool-call');
+		assert.strictEqual(toolCall?.type === 'tool-call' && toolCall.toolName, 'write');
+
+		const toolResult = events.find(event => event.type === 'tool-result');
+		assert.ok(toolResult?.type === 'tool-result');
+		assert.strictEqual(toolResult.isError, false);
+		const written = (toolResult.result as any).absolute_path as string;
+		assert.ok(written.endsWith(path.join('design_iterations', 'demo_1.html')));
+		assert.ok(fs.readFileSync(written, 'utf8').includes('<h1>Design faster, offline</h1>'));
+
+		// Text from both steps arrives in order, around the tool call
+		const text = events.filter(event => event.type === 'text').map(event => event.type === 'text' ? event.text : '').join('');
+		assert.ok(text.startsWith('This is the offline demo transcript'));
+		assert.ok(text.includes('Created **design_iterations/demo_1.html**'));
+	});
+
+	test('tool calls that need approval are denied when nobody can approve them', async () => {
+		const transcript = path.join(transcriptsDir, 'bash.jsonl');
+		fs.writeFileSync(transcript, [
+			{ type: 'tool-call', toolCallId: 'call_1', toolName: 'bash', args: { command: 'echo replayed' } },
+			{ type: 'finish', finishReason: 'tool-calls' },
+			{ type: 'text-delta', textDelta: 'Done' },
+			{ type: 'finish', finishReason: 'stop' }
+		].map(line => JSON.stringify(line)).join('\n'));
+
+		const { events } = await query(`scripted:${transcript}`, 'Run a command');
+
+		const toolResult = events.find(event => event.type === 'tool-result');
+		assert.ok(toolResult?.type === 'tool-result');
+		assert.strictEqual(toolResult.toolName, 'bash');
+		assert.strictEqual((toolResult.result as any).success, false);
+		assert.match(JSON.stringify(toolResult.result), /denied/);
+		assert.strictEqual(events.filter(event => event.type === 'text').map(event => event.type === 'text' ? event.text : '').join(''), 'Done');
+	});
+
+	test('the model catalog offers the bundled demo transcript', () => {
+		const demo = getModelCatalog().find(entry => entry.id === 'scripted:demo');
+		assert.strictEqual(demo?.name, 'Transcript: demo');
+		assert.ok(!getModelCatalog().some(entry => entry.id.includes('[object Object]')));
+	});
+
+	test('recordings only keep steps that finished', async () => {
+		const recording = path.join(transcriptsDir, 'recording.jsonl');
+		const recorder = createTranscriptRecorder(recording);
+		const replayStep = async (parts: any[]) => {
+			const { stream } = await recorder.wrapStream!({
+				doStream: async () => ({
+					stream: new ReadableStream({
+						start(controller) {
+							parts.forEach(part => controller.enqueue(part));
+							controller.close();
+						}
+					}),
+					rawCall: { rawPrompt: undefined, rawSettings: {} }
+				}),
+				doGenerate: undefined as any,
+				params: undefined as any,
+				model: undefined as any
+			});
+			// Drain the stream so every part passes the recorder
+			const reader = stream.getReader();
+			while (!(await reader.read()).done) {
+				continue;
+			}
+		};
+
+		// A failed attempt, then its retry
+		await replayStep([{ type: 'text-delta', textDelta: 'Half' }, { type: 'error', error: 'overloaded' }]);
+		await replayStep([{ type: 'text-delta', textDelta: 'Whole' }, { type: 'finish', finishReason: 'stop', usage: { promptTokens: 1, completionTokens: 1 } }]);
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		const lines = fs.readFileSync(recording, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+		assert.deepStrictEqual(lines.map(line => line.type), ['text-delta', 'finish']);
+		assert.strictEqual(lines[0].textDelta, 'Whole');
+	});
+
+	test('a transcript that runs out of steps says so instead of failing', async () => {
+		const transcript = path.join(transcriptsDir, 'short.jsonl');
+		fs.writeFileSync(transcript, [
+			{ type: 'tool-call', toolCallId: 'call_1', toolName: 'ls', args: { path: '.' } },
+			{ type: 'finish', finishReason: 'tool-calls' }
+		].map(line => JSON.stringify(line)).join('\n'));
+
+		const { events } = await query(`scripted:${transcript}`, 'List files');
+
+		const text = events.filter(event => event.type === 'text').map(event => event.type === 'text' ? event.text : '').join('');
+		assert.match(text, /short\.jsonl has no more steps/);
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildSystemPrompt } from '../services/systemPrompt';
+
+// The built-in agent's prompt from before it was assembled from sections
+const AGENT_PROMPT_FIXTURE = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'agent-system-prompt.txt');
+
+suite('System prompt', () => {
+	let superdesignDir: string;
+
+	setup(() => {
+		superdesignDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'superdesign-prompt-')), '.superdesign');
+		fs.mkdirSync(superdesignDir);
+	});
+
+	teardown(() => {
+		fs.rmSync(path.dirname(superdesignDir), { recursive: true, force: true });
+	});
+
+	test('without overrides the agent prompt is the original built-in prompt', async () => {
+		const expected = fs.readFileSync(AGENT_PROMPT_FIXTURE, 'utf8')
+			.replace('{{model}}', 'test-model')
+			.replace('{{workingDirectory}}', superdesignDir);
+
+		assert.strictEqual(await buildSystemPrompt('agent', superdesignDir, 'test-model'), expected);
+	});
+
+	test('rules-only sections stay out of the agent prompt', async () => {
+		const agent = await buildSystemPrompt('agent', superdesignDir, 'test-model');
+		const rules = await buildSystemPrompt('rules', superdesignDir);
+
+		for (const rulesOnly of ['Output type: Tool call', 'IMPORTANT RULES:', 'When calling tools, you MUST use the actual tool call']) {
+			assert.ok(rules.includes(rulesOnly), `rules include "${rulesOnly}"`);
+			assert.ok(!agent.includes(rulesOnly), `agent prompt leaves out "${rulesOnly}"`);
+		}
+		assert.ok(!rules.includes('# Current Context'));
+	});
+
+	test('workspace prompt files replace, extend and add sections', async () => {
+		fs.mkdirSync(path.join(superdesignDir, 'prompts'));
+		fs.writeFileSync(path.join(superdesignDir, 'prompts', 'role.md'), '# Role\nYou design for {{model}}.\n');
+		fs.writeFileSync(path.join(superdesignDir, 'prompts', 'tools.append.md'), '- **deploy**: Publish the design');
+		fs.writeFileSync(path.join(superdesignDir, 'prompts', 'example.md'), '');
+		fs.writeFileSync(path.join(superdesignDir, 'prompts', 'brand.md'), '# Brand\nUse the brand colors.');
+
+		const prompt = await buildSystemPrompt('agent', superdesignDir, 'test-model');
+
+		assert.ok(prompt.startsWith('# Role\nYou design for test-model.\n\n# Current Context'));
+		assert.ok(prompt.includes('- **generateTheme**: Generate a theme for the design\n\n- **deploy**: Publish the design'));
+		assert.ok(!prompt.includes('<example>'));
+		assert.ok(prompt.endsWith('# Brand\nUse the brand colors.\n'));
+	});
+});
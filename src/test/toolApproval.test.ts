@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { tool } from 'ai';
+import { z } from 'zod';
+import { getApprovalReason, getToolApprovalPolicy, withToolApproval, ToolApprovalRequest } from '../services/toolApproval';
+
+suite('Tool approval', () => {
+	const config = () => vscode.workspace.getConfiguration('superdesign');
+	let previousPolicies: Record<string, string> | undefined;
+	// Where the agent works, the .superdesign folder of the workspace
+	const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+	const workingDirectory = workspaceRoot ? path.join(workspaceRoot, '.superdesign') : path.join(os.tmpdir(), '.superdesign');
+
+	const setPolicies = (policies: Record<string, string> | undefined) =>
+		config().update('toolApproval', policies, vscode.ConfigurationTarget.Global);
+
+	suiteSetup(() => {
+		previousPolicies = config().inspect<Record<string, string>>('toolApproval')?.globalValue;
+	});
+
+	teardown(async () => {
+		await setPolicies(previousPolicies);
+	});
+
+	test('built-in tools use their default policies and unlisted tools ask', async () => {
+		await setPolicies({});
+
+		assert.strictEqual(getToolApprovalPolicy('read'), 'allow');
+		assert.strictEqual(getToolApprovalPolicy('ls'), 'allow');
+		assert.strictEqual(getToolApprovalPolicy('bash'), 'ask');
+		assert.strictEqual(getToolApprovalPolicy('write'), 'superdesign');
+		assert.strictEqual(getToolApprovalPolicy('build_tokens'), 'ask');
+		assert.strictEqual(getToolApprovalPolicy('mcp_echo_echo'), 'ask');
+	});
+
+	test('configured policies win, and unknown or unusable ones ask', async () => {
+		await setPolicies({ bash: 'allow', read: 'ask', mcp_echo_echo: 'superdesign', build_tokens: 'sometimes' });
+
+		assert.strictEqual(getToolApprovalPolicy('bash'), 'allow');
+		assert.strictEqual(getToolApprovalPolicy('read'), 'ask');
+		// 'superdesign' needs to know which path the tool touches
+		assert.strictEqual(getToolApprovalPolicy('mcp_echo_echo'), 'ask');
+		assert.strictEqual(getToolApprovalPolicy('build_tokens'), 'ask');
+	});
+
+	test('a default policy replaces the built-in defaults but not the configured ones', async () => {
+		await setPolicies({ build_tokens: 'allow' });
+
+		assert.strictEqual(getToolApprovalPolicy('read', 'ask'), 'ask');
+		assert.strictEqual(getToolApprovalPolicy('build_tokens', 'ask'), 'allow');
+	});
+
+	test('file tools only run without asking inside .superdesign', async () => {
+		await setPolicies({});
+
+		assert.strictEqual(getApprovalReason('write', { file_path: 'design_iterations/page_1.html' }, workingDirectory), undefined);
+		assert.strictEqual(getApprovalReason('edit', { file_path: path.join(workingDirectory, 'page.html') }, workingDirectory), undefined);
+		assert.match(getApprovalReason('write', { file_path: '../src/index.ts' }, workingDirectory)!, /outside \.superdesign/);
+		assert.match(getApprovalReason('multiedit', { file_path: path.join(path.dirname(workingDirectory), 'package.json') }, workingDirectory)!, /outside \.superdesign/);
+		assert.match(getApprovalReason('write', { file_path: os.homedir() }, workingDirectory)!, /outside \.superdesign/);
+		assert.match(getApprovalReason('write', { file_path: 42 }, workingDirectory)!, /outside \.superdesign/);
+	});
+
+	test('bash commands that reference paths outside .superdesign ask', async () => {
+		await setPolicies({ bash: 'superdesign' });
+
+		assert.strictEqual(getApprovalReason('bash', { command: 'ls design_iterations' }, workingDirectory), undefined);
+		assert.match(getApprovalReason('bash', { command: 'ls', directory: '..' }, workingDirectory)!, /outside \.superdesign/);
+		assert.match(getApprovalReason('bash', { command: 'cat /etc/passwd' }, workingDirectory)!, /references paths/);
+		assert.match(getApprovalReason('bash', { command: 'cat ../.env' }, workingDirectory)!, /references paths/);
+		assert.match(getApprovalReason('bash', { command: 'cp x ~/x' }, workingDirectory)!, /references paths/);
+	});
+
+	test('calls that need approval wait for the decision, and are denied without a handler', async () => {
+		await setPolicies({});
+		let runs = 0;
+		const tools = {
+			bash: tool({
+				description: 'Run a command',
+				parameters: z.object({ command: z.string() }),
+				execute: async () => ++runs
+			})
+		};
+		const options = { toolCallId: 'call_1', messages: [] };
+
+		const denied = await withToolApproval(tools, workingDirectory).bash.execute!({ command: 'echo hi' }, options);
+		assert.strictEqual(runs, 0);
+		assert.strictEqual((denied as any).error_type, 'permission');
+
+		const requests: ToolApprovalRequest[] = [];
+		const approved = await withToolApproval(tools, workingDirectory, async request => {
+			requests.push(request);
+			return 'approve';
+		}).bash.execute!({ command: 'echo hi' }, options);
+		assert.strictEqual(approved, 1);
+		assert.deepStrictEqual(requests, [{ toolCallId: 'call_1', toolName: 'bash', args: { command: 'echo hi' }, reason: 'bash requires approval' }]);
+	});
+});
@@ -7,6 +7,7 @@ import * as os from 'os';
 import { ExecutionContext } from '../types/agent';
 import { 
   handleToolError, 
+  checkAborted,
   validateWorkspacePath, 
   resolveWorkspacePath, 
   createSuccessResponse,
@@ -23,7 +24,7 @@ const bashParametersSchema = z.object({
   env: z.record(z.string()).optional().describe('Environment variables to set for the command execution')
 });
 
-interface CommandResult {
+export interface CommandResult {
   command: string;
   directory: string;
   stdout: string;
@@ -32,6 +33,7 @@ interface CommandResult {
   signal: string | null;
   duration: number;
   timedOut: boolean;
+  cancelled: boolean;
   processId?: number;
 }
 
@@ -63,16 +65,69 @@ function hasUnsafeCommand(command: string): boolean {
 
 // Path validation is now handled by validateWorkspacePath in tool-utils
 
+// Signal 0 only checks whether any process in the group is still there
+function isProcessGroupAlive(pid: number): boolean {
+  try {
+    process.kill(-pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Terminate the shell and everything it spawned, not just the shell itself
+ */
+function killProcessTree(child: ChildProcess, isWindows: boolean): void {
+  const pid = child.pid;
+  if (!pid) {
+    return;
+  }
+  try {
+    if (isWindows) {
+      // On Windows, use taskkill to terminate process tree
+      spawn('taskkill', ['/pid', pid.toString(), '/f', '/t']);
+    } else {
+      // On Unix, kill the process group
+      process.kill(-pid, 'SIGTERM');
+      // Force kill after 1 second, children can outlive a shell that exited on SIGTERM.
+      // Once the whole group is gone its id can be reused, so it is never signalled again.
+      const forceKill = setTimeout(() => {
+        if (isProcessGroupAlive(pid)) {
+          try {
+            process.kill(-pid, 'SIGKILL');
+          } catch (e) {
+            // Process might already be dead
+          }
+        }
+      }, 1000);
+      const onExit = () => {
+        if (!isProcessGroupAlive(pid)) {
+          clearTimeout(forceKill);
+        }
+      };
+      if (child.exitCode !== null || child.signalCode !== null) {
+        onExit();
+      } else {
+        child.once('exit', onExit);
+      }
+    }
+  } catch (error) {
+    // Process might already be dead
+  }
+}
+
 /**
  * Execute command with proper process management
  */
-async function executeCommand(
+export async function executeCommand(
   command: string,
   options: {
     cwd: string;
     env: NodeJS.ProcessEnv;
     timeout: number;
     captureOutput: boolean;
+    abortSignal?: AbortSignal;
   }
 ): Promise<CommandResult> {
   const startTime = Date.now();
@@ -92,6 +147,7 @@ async function executeCommand(
   let stdout = '';
   let stderr = '';
   let timedOut = false;
+  let cancelled = false;
 
   // Capture output if requested
   if (options.captureOutput && child.stdout && child.stderr) {
@@ -107,35 +163,25 @@ async function executeCommand(
   // Set up timeout
   const timeoutHandle = setTimeout(() => {
     timedOut = true;
-    if (child.pid) {
-      try {
-        if (isWindows) {
-          // On Windows, use taskkill to terminate process tree
-          spawn('taskkill', ['/pid', child.pid.toString(), '/f', '/t']);
-        } else {
-          // On Unix, kill the process group
-          process.kill(-child.pid, 'SIGTERM');
-          // Force kill after 1 second if still running
-          setTimeout(() => {
-            if (child.pid && !child.killed) {
-              try {
-                process.kill(-child.pid, 'SIGKILL');
-              } catch (e) {
-                // Process might already be dead
-              }
-            }
-          }, 1000);
-        }
-      } catch (error) {
-        // Process might already be dead
-      }
-    }
+    killProcessTree(child, isWindows);
   }, options.timeout);
 
+  // Stop pressed in the chat
+  const onAbort = () => {
+    cancelled = true;
+    killProcessTree(child, isWindows);
+  };
+  if (options.abortSignal?.aborted) {
+    onAbort();
+  } else {
+    options.abortSignal?.addEventListener('abort', onAbort, { once: true });
+  }
+
   // Wait for process to complete
   const exitPromise = new Promise<{ code: number | null; signal: string | null }>((resolve) => {
     child.on('exit', (code, signal) => {
       clearTimeout(timeoutHandle);
+      options.abortSignal?.removeEventListener('abort', onAbort);
       resolve({ code, signal });
     });
   });
@@ -152,6 +198,7 @@ async function executeCommand(
     signal: signal,
     duration,
     timedOut,
+    cancelled,
     processId: child.pid
   };
 }
@@ -164,6 +211,11 @@ export function createBashTool(context: ExecutionContext) {
       try {
         const { command, description, directory, timeout = 30000, capture_output = true, env } = params;
 
+        const abortError = checkAborted(context);
+        if (abortError) {
+          return abortError;
+        }
+
         // Security checks
         if (hasUnsafeCommand(command)) {
           return handleToolError('Command contains potentially unsafe operations', 'Security check', 'security');
@@ -200,11 +252,14 @@ export function createBashTool(context: ExecutionContext) {
         cwd: absolutePath,
         env: processEnv,
         timeout,
-        captureOutput: capture_output
+        captureOutput: capture_output,
+        abortSignal: context.abortController?.signal
       });
 
       // Log results
-      if (result.timedOut) {
+      if (result.cancelled) {
+        console.log(`Command cancelled after ${result.duration}ms`);
+      } else if (result.timedOut) {
         console.log(`Command timed out after ${timeout}ms`);
       } else if (result.exitCode === 0) {
         console.log(`Command completed successfully in ${result.duration}ms`);
@@ -233,6 +288,10 @@ export function createBashTool(context: ExecutionContext) {
         }
       }
 
+      if (result.cancelled) {
+        return handleToolError(`Command was cancelled after ${result.duration}ms, its process tree was killed`, 'Command execution', 'cancelled');
+      }
+
       if (result.timedOut) {
         return handleToolError(`Command timed out after ${timeout}ms`, 'Command execution', 'execution');
       }
@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as yaml from 'js-yaml';
+import { tool, Tool } from 'ai';
+import { z } from 'zod';
+import { ExecutionContext } from '../types/agent';
+import { executeCommand } from './bash-tool';
+import {
+  handleToolError,
+  checkAborted,
+  validateWorkspacePath,
+  resolveWorkspacePath,
+  createSuccessResponse,
+  validateDirectoryExists,
+  ToolResponse
+} from './tool-utils';
+
+/**
+ * One parameter of a declared tool. 'path' is a string that must stay inside
+ * the workspace, it is validated and resolved before the command runs.
+ */
+interface CustomToolParameter {
+  type: 'string' | 'number' | 'boolean' | 'path';
+  description?: string;
+  optional?: boolean;
+  default?: string | number | boolean;
+  enum?: string[];
+}
+
+/**
+ * A tool declared in .superdesign/tools/<name>.json|yaml, e.g.
+ *
+ *   name: build_tokens
+ *   description: Regenerate the design tokens from tokens.json
+ *   command: npm run tokens -- --out {{outDir}}
+ *   parameters:
+ *     outDir: { type: path, description: Output directory }
+ */
+export interface CustomToolDefinition {
+  name: string;
+  description: string;
+  // {{parameter}} placeholders are replaced with shell-quoted argument values
+  command: string;
+  // Relative to the workspace root (.superdesign), like the bash tool
+  directory?: string;
+  timeout?: number;
+  parameters?: Record<string, CustomToolParameter>;
+}
+
+const TOOLS_DIR = 'tools';
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const DEFINITION_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+function createParameterSchema(name: string, parameter: CustomToolParameter): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+  switch (parameter.type) {
+    case 'number':
+      schema = z.number();
+      break;
+    case 'boolean':
+      schema = z.boolean();
+      break;
+    case 'string':
+    case 'path':
+      schema = parameter.enum && parameter.enum.length > 0
+        ? z.enum(parameter.enum as [string, ...string[]])
+        : z.string();
+      break;
+    default:
+      throw new Error(`Parameter "${name}" has unsupported type "${(parameter as any).type}"`);
+  }
+
+  if (parameter.default !== undefined) {
+    schema = schema.default(parameter.default);
+  } else if (parameter.optional) {
+    schema = schema.optional();
+  }
+  const description = parameter.type === 'path'
+    ? `${parameter.description || name} (path relative to workspace root)`
+    : parameter.description;
+  return description ? schema.describe(description) : schema;
+}
+
+function quoteShellArgument(value: string): string {
+  if (os.platform() === 'win32') {
+    // cmd expands %VAR% and !VAR! even inside quotes, and a line break ends the command
+    if (/[%!\r\n]/.test(value)) {
+      throw new Error('Argument values cannot contain %, ! or line breaks on Windows');
+    }
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function validateDefinition(definition: any, file: string): CustomToolDefinition {
+  if (!definition || typeof definition !== 'object') {
+    throw new Error(`${file} does not contain a tool definition`);
+  }
+  if (typeof definition.name !== 'string' || !TOOL_NAME_PATTERN.test(definition.name)) {
+    throw new Error(`${file}: name must be 1-64 letters, digits, "_" or "-"`);
+  }
+  if (typeof definition.description !== 'string' || !definition.description.trim()) {
+    throw new Error(`${file}: description is required`);
+  }
+  if (typeof definition.command !== 'string' || !definition.command.trim()) {
+    throw new Error(`${file}: command is required`);
+  }
+  if (definition.timeout !== undefined && (typeof definition.timeout !== 'number' || !Number.isFinite(definition.timeout) || definition.timeout <= 0)) {
+    throw new Error(`${file}: timeout must be a positive number of milliseconds`);
+  }
+
+  const parameters = definition.parameters ?? {};
+  const placeholders = Array.from(definition.command.matchAll(/\{\{\s*(\w+)\s*\}\}/g), (match: RegExpMatchArray) => match[1]);
+  const undeclared = placeholders.filter(placeholder => !(placeholder in parameters));
+  if (undeclared.length > 0) {
+    throw new Error(`${file}: command uses undeclared parameters ${undeclared.join(', ')}`);
+  }
+  return definition as CustomToolDefinition;
+}
+
+/**
+ * Read the tool definitions in .superdesign/tools. Invalid files are logged
+ * and skipped so one broken definition doesn't take down the others.
+ */
+export async function loadCustomToolDefinitions(context: ExecutionContext): Promise<CustomToolDefinition[]> {
+  const toolsDir = path.join(context.workingDirectory, TOOLS_DIR);
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir(toolsDir);
+  } catch {
+    return [];
+  }
+
+  const definitions: CustomToolDefinition[] = [];
+  for (const file of entries.filter(entry => DEFINITION_EXTENSIONS.includes(path.extname(entry).toLowerCase())).sort()) {
+    try {
+      const content = await fs.promises.readFile(path.join(toolsDir, file), 'utf8');
+      const parsed = path.extname(file).toLowerCase() === '.json' ? JSON.parse(content) : yaml.load(content);
+      definitions.push(validateDefinition(parsed, file));
+    } catch (error) {
+      context.outputChannel.appendLine(`[custom-tool] Skipping ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Create a tool that runs the definition's command template through the same
+ * process handling as the bash tool
+ */
+export function createCustomTool(definition: CustomToolDefinition, context: ExecutionContext): Tool {
+  const parameters = definition.parameters ?? {};
+  const shape = Object.fromEntries(
+    Object.entries(parameters).map(([name, parameter]) => [name, createParameterSchema(name, parameter)])
+  );
+
+  return tool({
+    description: definition.description,
+    parameters: z.object(shape),
+    execute: async (args: Record<string, any>): Promise<ToolResponse> => {
+      try {
+        const abortError = checkAborted(context);
+        if (abortError) {
+          return abortError;
+        }
+
+        // Path parameters get the same workspace boundary check as the file tools
+        const values: Record<string, string> = {};
+        for (const [name, parameter] of Object.entries(parameters)) {
+          const value = args[name];
+          if (value === undefined) {
+            values[name] = '';
+            continue;
+          }
+          if (parameter.type === 'path') {
+            const pathError = validateWorkspacePath(String(value), context);
+            if (pathError) {
+              return pathError;
+            }
+            values[name] = quoteShellArgument(resolveWorkspacePath(String(value), context));
+          } else {
+            values[name] = quoteShellArgument(String(value));
+          }
+        }
+
+        const command = definition.command.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => values[name]);
+
+        const workingDir = definition.directory || '.';
+        const pathError = validateWorkspacePath(workingDir, context);
+        if (pathError) {
+          return pathError;
+        }
+        const absolutePath = resolveWorkspacePath(workingDir, context);
+        const dirError = validateDirectoryExists(absolutePath, workingDir);
+        if (dirError) {
+          return dirError;
+        }
+
+        context.outputChannel.appendLine(`[${definition.name}] Executing: ${command}`);
+        const timeout = definition.timeout ?? 60000;
+        const result = await executeCommand(command, {
+          cwd: absolutePath,
+          env: process.env,
+          timeout,
+          captureOutput: true,
+          abortSignal: context.abortController?.signal
+        });
+
+        if (result.cancelled) {
+          return handleToolError(`${definition.name} was cancelled after ${result.duration}ms`, 'Command execution', 'cancelled');
+        }
+        if (result.timedOut) {
+          return handleToolError(`${definition.name} timed out after ${timeout}ms`, 'Command execution', 'execution');
+        }
+        if (result.exitCode !== 0) {
+          return handleToolError(
+            `${definition.name} failed with exit code ${result.exitCode}${result.stderr ? `\nStderr: ${result.stderr}` : ''}`,
+            'Command execution',
+            'execution'
+          );
+        }
+
+        return createSuccessResponse({
+          tool: definition.name,
+          command,
+          directory: workingDir,
+          exitCode: result.exitCode,
+          duration: result.duration,
+          stdout: result.stdout,
+          stderr: result.stderr
+        });
+      } catch (error) {
+        return handleToolError(error, `${definition.name} execution`, 'execution');
+      }
+    }
+  });
+}
+
+/**
+ * All declared workspace tools, skipping any whose name is already taken by a
+ * built-in or MCP tool
+ */
+export async function createCustomTools(context: ExecutionContext, reservedNames: string[]): Promise<Record<string, Tool>> {
+  const tools: Record<string, Tool> = {};
+  for (const definition of await loadCustomToolDefinitions(context)) {
+    if (reservedNames.includes(definition.name) || definition.name in tools) {
+      context.outputChannel.appendLine(`[custom-tool] Skipping ${definition.name}: a tool with that name already exists`);
+      continue;
+    }
+    try {
+      tools[definition.name] = createCustomTool(definition, context);
+    } catch (error) {
+      context.outputChannel.appendLine(`[custom-tool] Skipping ${definition.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return tools;
+}
@@ -5,6 +5,7 @@ import * as path from 'path';
 import { ExecutionContext } from '../types/agent';
 import { 
   handleToolError, 
+  checkAborted,
   validateWorkspacePath, 
   resolveWorkspacePath, 
   createSuccessResponse,
@@ -166,6 +167,11 @@ export function createEditTool(context: ExecutionContext) {
           }
         }
 
+        const abortError = checkAborted(context);
+        if (abortError) {
+          return abortError;
+        }
+
         // Write the updated content
         fs.writeFileSync(absolutePath, editResult.newContent, 'utf8');
 
@@ -5,6 +5,7 @@ import * as path from 'path';
 import { ExecutionContext } from '../types/agent';
 import { 
   handleToolError, 
+  checkAborted,
   validateWorkspacePath, 
   resolveWorkspacePath, 
   createSuccessResponse,
@@ -225,6 +226,11 @@ export function createGlobTool(context: ExecutionContext) {
           sort_by_time = false 
         } = params;
 
+        const abortError = checkAborted(context);
+        if (abortError) {
+          return abortError;
+        }
+
         // Validate workspace path (handles both absolute and relative paths)
         const pathError = validateWorkspacePath(searchPath, context);
         if (pathError) {
@@ -5,6 +5,7 @@ import * as path from 'path';
 import { ExecutionContext } from '../types/agent';
 import { 
   handleToolError, 
+  checkAborted,
   validateWorkspacePath, 
   resolveWorkspacePath, 
   createSuccessResponse,
@@ -205,6 +206,11 @@ export function createGrepTool(context: ExecutionContext) {
           max_matches = 100 
         } = params;
 
+        const abortError = checkAborted(context);
+        if (abortError) {
+          return abortError;
+        }
+
         // Pattern validation (test if it's a valid regex)
         try {
           new RegExp(pattern);
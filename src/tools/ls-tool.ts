@@ -5,6 +5,7 @@ import * as path from 'path';
 import { ExecutionContext } from '../types/agent';
 import { 
   handleToolError, 
+  checkAborted,
   validateWorkspacePath, 
   resolveWorkspacePath, 
   createSuccessResponse,
@@ -102,6 +103,11 @@ export function createLsTool(context: ExecutionContext) {
       try {
         const { path: targetPath = '.', show_hidden = false, ignore, detailed = false } = params;
 
+        const abortError = checkAborted(context);
+        if (abortError) {
+          return abortError;
+        }
+
         // Validate workspace path (handles both absolute and relative paths)
         const pathError = validateWorkspacePath(targetPath, context);
         if (pathError) {
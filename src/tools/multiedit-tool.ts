@@ -5,6 +5,7 @@ import * as path from 'path';
 import { ExecutionContext } from '../types/agent';
 import { 
   handleToolError, 
+  checkAborted,
   validateWorkspacePath, 
   resolveWorkspacePath, 
   createSuccessResponse,
@@ -151,6 +152,11 @@ export function createMultieditTool(context: ExecutionContext) {
         }
       }
 
+      const abortError = checkAborted(context);
+      if (abortError) {
+        return abortError;
+      }
+
       // Write the updated content if any edits were successful
       if (successCount > 0) {
         fs.writeFileSync(absolutePath, currentContent, 'utf8');
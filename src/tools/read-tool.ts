@@ -6,6 +6,7 @@ import { z } from 'zod';
 import { ExecutionContext } from '../types/agent';
 import { 
   handleToolError, 
+  checkAborted,
   validateWorkspacePath, 
   resolveWorkspacePath, 
   createSuccessResponse,
@@ -205,6 +206,11 @@ export function createReadTool(context: ExecutionContext) {
     const startTime = Date.now();
     
     try {
+        const abortError = checkAborted(context);
+        if (abortError) {
+          return abortError;
+        }
+
         // Validate workspace path (handles both absolute and relative paths)
         const pathError = validateWorkspacePath(filePath, context);
         if (pathError) {
@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { ExecutionContext } from '../types/agent';
 import { 
   handleToolError, 
+  checkAborted,
   validateWorkspacePath, 
   resolveWorkspacePath, 
   createSuccessResponse,
@@ -67,6 +68,11 @@ export function createThemeTool(context: ExecutionContext) {
             }
           }
 
+          const abortError = checkAborted(context);
+          if (abortError) {
+            return abortError;
+          }
+
           // Write the CSS content to file
           fs.writeFileSync(resolvedPath, cssSheet, 'utf8');
           
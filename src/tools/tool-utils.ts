@@ -7,7 +7,7 @@ import { ExecutionContext } from '../types/agent';
 export interface ToolErrorResponse {
   success: false;
   error: string;
-  error_type?: 'validation' | 'security' | 'file_not_found' | 'permission' | 'execution' | 'unknown';
+  error_type?: 'validation' | 'security' | 'file_not_found' | 'permission' | 'execution' | 'cancelled' | 'unknown';
   details?: any;
 }
 
@@ -60,6 +60,16 @@ export function handleToolError(
   };
 }
 
+/**
+ * Stop before doing any work, or before a write lands, once the user pressed Stop
+ */
+export function checkAborted(context: ExecutionContext): ToolErrorResponse | null {
+  if (context.abortController?.signal.aborted) {
+    return handleToolError('Cancelled by the user', 'Tool execution', 'cancelled');
+  }
+  return null;
+}
+
 /**
  * Validate if a path is within the workspace directory (supports both absolute and relative paths)
  */
@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { ExecutionContext } from '../types/agent';
 import { 
   handleToolError, 
+  checkAborted,
   validateWorkspacePath, 
   resolveWorkspacePath, 
   createSuccessResponse,
@@ -70,6 +71,11 @@ export function createWriteTool(context: ExecutionContext) {
       // Determine if this is a new file or overwrite
       const isNewFile = !fs.existsSync(absolutePath);
       
+      const abortError = checkAborted(context);
+      if (abortError) {
+        return abortError;
+      }
+
       // Write the file
         fs.writeFileSync(absolutePath, content, 'utf8');
 
@@ -1,5 +1,32 @@
 import * as vscode from 'vscode';
 import { CoreMessage } from 'ai';
+import { StepUsage } from '../services/usageTracker';
+import { DesignCritique } from '../services/designCritic';
+import { ToolApprovalHandler } from '../services/toolApproval';
+
+/**
+ * What an agent backend streams to the chat. Every backend translates its own
+ * message format into these, so the chat renders them the same way.
+ */
+export type AgentStreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'tool-call'; toolCallId: string; toolName: string; args: any }
+    // Arguments parsed so far while a tool call is still streaming
+    | { type: 'tool-call-update'; toolCallId: string; toolName: string; args: any }
+    // isCancelled: the tool was stopped, or never ran, because the user pressed Stop
+    | { type: 'tool-result'; toolCallId: string; toolName: string; result: unknown; isError: boolean; isCancelled?: boolean }
+    | { type: 'usage'; usage: StepUsage }
+    // Status line (retry, model fallback) that is not part of the conversation
+    | { type: 'notice'; kind: string; message: string }
+    | { type: 'step-budget-exhausted'; maxSteps: number }
+    | { type: 'error'; message: string };
+
+export interface AgentQueryOptions {
+    // Persisted chat session this query belongs to
+    sessionId?: string;
+    // Asked before running a tool call whose approval policy requires it
+    requestToolApproval?: ToolApprovalHandler;
+}
 
 export interface AgentService {
     query(
@@ -7,11 +34,14 @@ export interface AgentService {
         messages?: CoreMessage[],
         options?: any,
         abortController?: AbortController,
-        onMessage?: (message: any) => void
-    ): Promise<any[]>;
+        onMessage?: (event: AgentStreamEvent) => void
+    ): Promise<AgentStreamEvent[]>;
     
-    hasApiKey(): boolean;
+    hasApiKey(): Promise<boolean>;
     isApiKeyAuthError(errorMessage: string): boolean;
+
+    // Reviewer pass over a generated design, only offered by the built-in agent
+    critiqueDesign?(filePath: string, abortController?: AbortController): Promise<{ critique: DesignCritique; usage?: StepUsage }>;
 }
 
 export interface ExecutionContext {
@@ -6,20 +6,42 @@ import MarkdownRenderer from '../MarkdownRenderer';
 import { TaskIcon, ClockIcon, CheckIcon, LightBulbIcon, GroupIcon, BrainIcon } from '../Icons';
 import Welcome from '../Welcome';
 import ThemePreviewCard from './ThemePreviewCard';
-import ModelSelector from './ModelSelector';
+import ModelSelector, { ActiveEndpoint, ModelOption } from './ModelSelector';
+import SessionSwitcher from './SessionSwitcher';
+import { SlashCommandOption, expandSlashCommand, getCommandQuery } from '../../utils/slashCommands';
+import {
+    MentionOption, MentionedFileContent, MENTION_ICONS, getMentionQuery, removeMentionQuery, getFileName, buildMentionParts
+} from '../../utils/mentions';
+import {
+    ImageLimits, PreparedImage, DEFAULT_IMAGE_LIMITS, prepareImage, dataUrlToBlob, getImageExtension, formatImageSize, limitImageParts
+} from '../../utils/imageAttachments';
 import chatStyles from './ChatInterface.css';
 import welcomeStyles from '../Welcome/Welcome.css';
 
+const CRITIQUE_CHECK_LABELS: Record<string, string> = {
+    responsiveness: 'Responsiveness',
+    contrast: 'Contrast',
+    tokens: 'Token usage',
+    rules: 'Rule compliance'
+};
+
 interface ChatInterfaceProps {
     layout: WebviewLayout;
     vscode: any;
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
-    const { chatHistory, isLoading, sendMessage, clearHistory, setChatHistory } = useChat(vscode);
+    const {
+        chatHistory, isLoading, sessionUsage, sendMessage, sendVariations, respondToToolApproval, clearHistory, setChatHistory,
+        sessionId, sessions, listSessions, switchSession, forkSession
+    } = useChat(vscode);
     const { isFirstTime, isLoading: isCheckingFirstTime, markAsReturningUser, resetFirstTimeUser } = useFirstTimeUser();
     const [inputMessage, setInputMessage] = useState('');
-    const [selectedModel, setSelectedModel] = useState<string>('claude-3-5-sonnet-20241022');
+    const [selectedModel, setSelectedModel] = useState<string>('');
+    const [models, setModels] = useState<ModelOption[]>([]);
+    const [pinnedModels, setPinnedModels] = useState<string[]>([]);
+    const [hiddenModels, setHiddenModels] = useState<string[]>([]);
+    const [activeEndpoint, setActiveEndpoint] = useState<ActiveEndpoint | null>(null);
     const [expandedTools, setExpandedTools] = useState<Record<string, boolean>>({});
     const [showFullContent, setShowFullContent] = useState<{[key: string]: boolean}>({});
     const [currentContext, setCurrentContext] = useState<{fileName: string; type: string} | null>(null);
@@ -28,7 +50,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
     // Drag and drop state
     const [uploadingImages, setUploadingImages] = useState<string[]>([]);
     const [pendingImages, setPendingImages] = useState<{fileName: string; originalName: string; fullPath: string}[]>([]);
+    const [imageLimits, setImageLimits] = useState<ImageLimits>(DEFAULT_IMAGE_LIMITS);
+    // Thumbnails of attached images by moodboard file name, shown until the message is sent
+    const [imagePreviews, setImagePreviews] = useState<Record<string, PreparedImage>>({});
     const [toolTimers, setToolTimers] = useState<Record<string, number>>({});
+    // 0 sends a normal message, 2-6 generates that many variations in parallel
+    const [variationCount, setVariationCount] = useState<number>(0);
+    const [slashCommands, setSlashCommands] = useState<SlashCommandOption[]>([]);
+    // @-mentioned files attached to the next message, shown as chips above the input
+    const [mentions, setMentions] = useState<MentionOption[]>([]);
+    const [mentionCandidates, setMentionCandidates] = useState<MentionOption[]>([]);
+    const mentionQueryRef = useRef<string | undefined>(undefined);
+    // Shared by the /command and @mention suggestion lists
+    const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(0);
+    const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
     const timerIntervals = useRef<Record<string, NodeJS.Timeout>>({});
 
     // Helper function to check if we have meaningful conversation messages
@@ -40,31 +75,33 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
         );
     };
 
-    // Request current provider on mount
+    // Request current provider and slash commands on mount
     useEffect(() => {
         vscode.postMessage({
             command: 'getCurrentProvider'
         });
+        vscode.postMessage({ command: 'getSlashCommands' });
         
         const handleMessage = (event: MessageEvent) => {
             const message = event.data;
-            if (message.command === 'currentProviderResponse') {
-                let fallbackModel: string;
-                switch (message.provider) {
-                    case 'openai':
-                        fallbackModel = 'gpt-4o';
-                        break;
-                    case 'openrouter':
-                        fallbackModel = 'anthropic/claude-3-7-sonnet-20250219';
-                        break;
-                    case 'anthropic':
-                    default:
-                        fallbackModel = 'claude-3-5-sonnet-20241022';
-                        break;
+            if (message.command === 'slashCommandsResponse') {
+                setSlashCommands(message.commands || []);
+            } else if (message.command === 'mentionCandidates') {
+                // Answers to older queries may arrive after newer ones
+                if (message.query === mentionQueryRef.current) {
+                    setMentionCandidates(message.candidates || []);
                 }
-                setSelectedModel(message.model || fallbackModel);
+            } else if (message.command === 'currentProviderResponse') {
+                setSelectedModel(message.model);
+                setModels(message.models || []);
+                setPinnedModels(message.pinnedModels || []);
+                setHiddenModels(message.hiddenModels || []);
+                setActiveEndpoint(message.endpoint || null);
+                setImageLimits(message.imageLimits || DEFAULT_IMAGE_LIMITS);
             } else if (message.command === 'providerChanged') {
                 setSelectedModel(message.model);
+                setActiveEndpoint(message.endpoint || null);
+                setImageLimits(message.imageLimits || DEFAULT_IMAGE_LIMITS);
             }
         };
         
@@ -80,6 +117,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
         });
     };
 
+    const handleToggleModelPinned = (model: string) => {
+        vscode.postMessage({
+            command: 'toggleModelPinned',
+            model: model
+        });
+    };
+
+    const handleToggleModelHidden = (model: string) => {
+        vscode.postMessage({
+            command: 'toggleModelHidden',
+            model: model
+        });
+    };
+
     useEffect(() => {
         // Inject ChatInterface CSS styles
         const styleId = 'chat-interface-styles';
@@ -146,6 +197,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                     // Handle image save error
                     console.error('📎 Image save error:', message.data);
                     setUploadingImages(prev => prev.filter(name => name !== message.data.originalName));
+                    setImagePreviews(prev => {
+                        const { [message.data.fileName]: _failed, ...rest } = prev;
+                        return rest;
+                    });
                 } else if (message.command === 'clearChat') {
                     // Handle clear chat command from toolbar
                     handleNewConversation();
@@ -194,6 +249,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
         }
     }, [isCheckingFirstTime, isFirstTime, chatHistory]);
 
+    // Keep the switcher's title for the current session up to date after a switch or branch
+    useEffect(() => {
+        if (sessionId) {
+            listSessions();
+        }
+    }, [sessionId]);
+
     // Auto-collapse tools when new messages arrive
     useEffect(() => {
         const handleAutoCollapse = () => {
@@ -222,12 +284,60 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
         return () => window.removeEventListener('autoCollapseTools', handleAutoCollapse);
     }, [chatHistory]);
 
+    const readMentions = (paths: string[]) => new Promise<MentionedFileContent[]>((resolve, reject) => {
+        const requestId = `mentions_${Date.now()}`;
+        const timeoutId = setTimeout(() => {
+            window.removeEventListener('message', handler);
+            reject(new Error('Timeout waiting for mentioned files'));
+        }, 10000);
+
+        const handler = (event: MessageEvent) => {
+            if (event.data.command === 'mentionsContent' && event.data.requestId === requestId) {
+                clearTimeout(timeoutId);
+                window.removeEventListener('message', handler);
+                resolve(event.data.files || []);
+            }
+        };
+
+        window.addEventListener('message', handler);
+        vscode.postMessage({ command: 'readMentions', requestId, paths });
+    });
+
+    // Mentioned images go through the same resizing as attachments
+    const prepareMentionedImage = async (file: MentionedFileContent): Promise<MentionedFileContent> => {
+        if (file.type !== 'image' || !file.image) {
+            return file;
+        }
+        try {
+            const image = await prepareImage(dataUrlToBlob(`data:${file.mimeType};base64,${file.image}`), imageLimits);
+            return { ...file, image: image.dataUrl.replace(/^data:[^;]+;base64,/, ''), mimeType: image.mimeType };
+        } catch (error) {
+            return { path: file.path, type: 'text', error: error instanceof Error ? error.message : String(error) };
+        }
+    };
+
     const handleSendMessage = async () => {
         if (inputMessage.trim()) {
             let messageContent: any;
+            // A known /command is replaced by its expanded prompt template
+            const slashCommand = expandSlashCommand(inputMessage.trim(), slashCommands);
+            let messageText = slashCommand ? slashCommand.prompt : inputMessage;
+            const count = slashCommand?.variationCount ?? variationCount;
+
+            const mentionPaths = mentions.map(mention => mention.path);
+            let mentionedFiles: MentionedFileContent[] = [];
+            if (mentionPaths.length > 0) {
+                try {
+                    mentionedFiles = await Promise.all((await readMentions(mentionPaths)).map(prepareMentionedImage));
+                } catch (error) {
+                    console.error('Failed to read mentioned files:', error);
+                    messageText += `\n\n[Note: Could not attach ${mentionPaths.join(', ')}: ${error}]`;
+                }
+            }
+            setMentions([]);
             
             console.log('📤 Sending message with context:', currentContext);
-            console.log('📤 Input message:', inputMessage);
+            console.log('📤 Input message:', messageText);
             
             // Check if we have image context to include
             if (currentContext && (currentContext.type === 'image' || currentContext.type === 'images')) {
@@ -236,7 +346,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                     const contentParts: any[] = [
                         {
                             type: 'text',
-                            text: inputMessage
+                            text: messageText
                         }
                     ];
                     
@@ -276,18 +386,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                                 });
                             });
                             
-                            // Extract MIME type from base64 data URL
-                            const mimeMatch = base64Data.match(/^data:([^;]+);base64,/);
-                            const mimeType = mimeMatch ? mimeMatch[1] : 'image/png';
-                            const base64Content = base64Data.replace(/^data:[^;]+;base64,/, '');
+                            // Moodboard images saved earlier or for another model are fitted to the current limits
+                            const image = await prepareImage(dataUrlToBlob(base64Data), imageLimits);
+                            const base64Content = image.dataUrl.replace(/^data:[^;]+;base64,/, '');
                             
                             contentParts.push({
                                 type: 'image',
                                 image: base64Content,
-                                mimeType: mimeType
+                                mimeType: image.mimeType
                             });
                             
-                            console.log('📎 Added image to message:', imagePath, 'MIME:', mimeType);
+                            console.log('📎 Added image to message:', imagePath, 'MIME:', image.mimeType, `${image.width}×${image.height}`);
                         } catch (error) {
                             console.error('Failed to load image:', imagePath, error);
                             // Add error note to text content instead
@@ -301,24 +410,100 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                     console.error('Error processing images:', error);
                     // Fallback to text-only message with context info
                     messageContent = currentContext.type === 'images' 
-                        ? `Context: Multiple images in moodboard\n\nMessage: ${inputMessage}`
-                        : `Context: ${currentContext.fileName}\n\nMessage: ${inputMessage}`;
+                        ? `Context: Multiple images in moodboard\n\nMessage: ${messageText}`
+                        : `Context: ${currentContext.fileName}\n\nMessage: ${messageText}`;
                 }
-            } else if (currentContext) {
+            } else if (currentContext && count === 0) {
                 // Non-image context - use simple text format
-                messageContent = `Context: ${currentContext.fileName}\n\nMessage: ${inputMessage}`;
+                messageContent = `Context: ${currentContext.fileName}\n\nMessage: ${messageText}`;
                 console.log('📤 Final message with non-image context:', messageContent);
             } else {
                 // No context - just the message text
-                messageContent = inputMessage;
+                messageContent = messageText;
                 console.log('📤 No context available, sending message as-is');
             }
             
-            sendMessage(messageContent);
+            // Mentioned files follow the message as their own text and image parts
+            if (mentionedFiles.length > 0) {
+                const parts = typeof messageContent === 'string' ? [{ type: 'text', text: messageContent }] : messageContent;
+                messageContent = [...parts, ...buildMentionParts(mentionedFiles)];
+            }
+            if (Array.isArray(messageContent)) {
+                messageContent = limitImageParts(messageContent, imageLimits.maxImages);
+            }
+            
+            const metadata = mentionPaths.length > 0 ? { mentions: mentionPaths } : undefined;
+            if (count > 0) {
+                // Every variation run gets the same content, images included; a design
+                // context file names the variations on the extension side
+                sendVariations(messageContent, count, currentContext?.fileName, metadata);
+            } else {
+                sendMessage(messageContent, metadata);
+            }
             setInputMessage('');
         }
     };
 
+    // Commands matching the "/name" typed so far
+    const commandQuery = getCommandQuery(inputMessage);
+    const matchingCommands = commandQuery === undefined || suggestionsDismissed
+        ? []
+        : slashCommands.filter(command => command.name.startsWith(commandQuery.toLowerCase()));
+    const activeCommand = slashCommands.find(command => inputMessage.startsWith(`/${command.name} `));
+
+    // Files matching the "@query" at the end of the input
+    const mentionQuery = getMentionQuery(inputMessage);
+    mentionQueryRef.current = mentionQuery;
+    const visibleMentionCandidates = mentionQuery === undefined || suggestionsDismissed
+        ? []
+        : mentionCandidates.filter(candidate => !mentions.some(mention => mention.path === candidate.path));
+
+    useEffect(() => {
+        if (mentionQuery === undefined) {
+            setMentionCandidates([]);
+            return;
+        }
+        vscode.postMessage({ command: 'searchMentions', query: mentionQuery });
+    }, [mentionQuery]);
+
+    const handleSelectCommand = (command: SlashCommandOption) => {
+        setInputMessage(`/${command.name} `);
+        setSelectedSuggestionIndex(0);
+    };
+
+    const handleSelectMention = (mention: MentionOption) => {
+        setMentions(prev => [...prev, mention]);
+        setInputMessage(removeMentionQuery(inputMessage));
+        setSelectedSuggestionIndex(0);
+    };
+
+    const handleRemoveMention = (mentionPath: string) => {
+        setMentions(prev => prev.filter(mention => mention.path !== mentionPath));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const suggestionCount = matchingCommands.length || visibleMentionCandidates.length;
+        if (suggestionCount === 0) {
+            return;
+        }
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setSelectedSuggestionIndex(index => (index + step + suggestionCount) % suggestionCount);
+        } else if (e.key === 'Tab' || e.key === 'Enter') {
+            e.preventDefault();
+            const selected = Math.min(selectedSuggestionIndex, suggestionCount - 1);
+            if (matchingCommands.length > 0) {
+                handleSelectCommand(matchingCommands[selected]);
+            } else {
+                handleSelectMention(visibleMentionCandidates[selected]);
+            }
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            setSuggestionsDismissed(true);
+        }
+    };
+
     const handleKeyPress = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
@@ -328,6 +513,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
 
     const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
         setInputMessage(e.target.value);
+        setSelectedSuggestionIndex(0);
+        setSuggestionsDismissed(false);
+        // Starting a command refreshes the list, .superdesign/commands may have changed
+        if (e.target.value === '/') {
+            vscode.postMessage({ command: 'getSlashCommands' });
+        }
         resizeTextarea(e.target);
     };
 
@@ -362,6 +553,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
         setCurrentContext(null);
         setUploadingImages([]);
         setPendingImages([]);
+        setImagePreviews({});
+        setMentions([]);
         setToolTimers({}); // Clear all tool timers
         
         // Clear all timer intervals
@@ -435,14 +628,30 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
         }
     };
 
+    const getAttachedImageCount = () => {
+        const contextImages = currentContext?.type === 'images'
+            ? currentContext.fileName.split(', ').length
+            : currentContext?.type === 'image' ? 1 : 0;
+        return contextImages + uploadingImages.length + pendingImages.length;
+    };
+
     const handleImageUpload = async (file: File): Promise<void> => {
-        const maxSize = 10 * 1024 * 1024; // 10MB limit
+        // Large sources are fine, they are downscaled before saving
+        const maxSize = 50 * 1024 * 1024;
+        const displayName = file.name || 'clipboard image';
         if (file.size > maxSize) {
-            const displayName = file.name || 'clipboard image';
             console.error('Image too large:', displayName);
             vscode.postMessage({
                 command: 'showError',
-                data: `Image "${displayName}" is too large. Maximum size is 10MB.`
+                data: `Image "${displayName}" is too large. Maximum size is 50MB.`
+            });
+            return;
+        }
+
+        if (getAttachedImageCount() >= imageLimits.maxImages) {
+            vscode.postMessage({
+                command: 'showError',
+                data: `The selected model accepts at most ${imageLimits.maxImages} images per message.`
             });
             return;
         }
@@ -450,43 +659,49 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
         // Create a unique filename - handle clipboard images without names
         const timestamp = Date.now();
         const originalName = file.name || `clipboard-image-${timestamp}`;
-        const extension = file.type.split('/')[1] || 'png';
-        const safeName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_');
-        const fileName = safeName.includes('.') ? `${timestamp}_${safeName}` : `${timestamp}_${safeName}.${extension}`;
+        const safeName = originalName.replace(/\.[^.]*$/, '').replace(/[^a-zA-Z0-9.-]/g, '_');
 
         // Add to uploading state
         setUploadingImages(prev => [...prev, originalName]);
 
-        // Convert to base64 for sending to extension
-        const reader = new FileReader();
-        reader.onload = () => {
-            const base64Data = reader.result as string;
-            
+        try {
+            // Resized and re-encoded locally, so the moodboard copy is what gets sent
+            const image = await prepareImage(file, imageLimits);
+            const fileName = `${timestamp}_${safeName}.${getImageExtension(image.mimeType)}`;
+            setImagePreviews(prev => ({ ...prev, [fileName]: image }));
+
             // Send to extension to save in moodboard
             vscode.postMessage({
                 command: 'saveImageToMoodboard',
                 data: {
                     fileName,
                     originalName,
-                    base64Data,
-                    mimeType: file.type,
-                    size: file.size
+                    base64Data: image.dataUrl,
+                    mimeType: image.mimeType,
+                    size: image.size
                 }
             });
 
-            console.log('📎 Image sent to extension for saving:', fileName);
-        };
-
-        reader.onerror = () => {
-            console.error('Error reading file:', file.name);
-            setUploadingImages(prev => prev.filter(name => name !== file.name));
+            console.log(`📎 Image sent to extension for saving: ${fileName} (${image.originalWidth}×${image.originalHeight} → ${image.width}×${image.height})`);
+        } catch (error) {
+            console.error('Error preparing image:', displayName, error);
+            setUploadingImages(prev => prev.filter(name => name !== originalName));
             vscode.postMessage({
                 command: 'showError',
-                data: `Failed to read image "${file.name}"`
+                data: `Failed to attach image "${displayName}": ${error instanceof Error ? error.message : String(error)}`
             });
-        };
+        }
+    };
 
-        reader.readAsDataURL(file);
+    const handleRemoveImage = (imagePath: string) => {
+        if (!currentContext) {
+            return;
+        }
+        const remaining = currentContext.fileName.split(', ').filter(path => path !== imagePath);
+        setCurrentContext(remaining.length === 0 ? null : {
+            fileName: remaining.join(', '),
+            type: remaining.length === 1 ? 'image' : 'images'
+        });
     };
 
     // Auto-set context when images finish uploading
@@ -683,14 +898,153 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
     }, [isLoading, handleImageUpload, showWelcome]);
 
     const renderChatMessage = (msg: ChatMessage, index: number) => {
+        const approval = msg.metadata?.tool_approval;
+        if (approval) {
+            const target = approval.args?.command || approval.args?.file_path || approval.args?.cssFilePath;
+            return (
+                <div key={index} className={`tool-approval tool-approval--${approval.status}`}>
+                    <div className="tool-approval__header">
+                        <span className="tool-approval__tool">{approval.toolName}</span>
+                        <span className="tool-approval__reason">{approval.reason}</span>
+                    </div>
+                    {target && <code className="tool-approval__target">{target}</code>}
+                    {approval.status === 'pending' ? (
+                        <div className="tool-approval__actions">
+                            <button className="chat-notice__action" onClick={() => respondToToolApproval(approval.id, 'approve')}>
+                                Approve
+                            </button>
+                            <button className="chat-notice__action" onClick={() => respondToToolApproval(approval.id, 'always')}>
+                                Always allow {approval.toolName} this session
+                            </button>
+                            <button className="chat-notice__action tool-approval__deny" onClick={() => respondToToolApproval(approval.id, 'deny')}>
+                                Deny
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="tool-approval__status">
+                            {approval.status === 'deny' ? 'Denied' : approval.status === 'always' ? `Approved, ${approval.toolName} is allowed for this session` : 'Approved'}
+                        </div>
+                    )}
+                </div>
+            );
+        }
+
+        // Retry, model fallback and compaction notices are a single status line
+        if (msg.metadata?.is_notice) {
+            const isStepBudget = msg.metadata.notice_kind === 'step-budget';
+            return (
+                <div key={index} className={`chat-notice chat-notice--${msg.metadata.notice_kind || 'info'}`}>
+                    <span className="chat-notice__icon">{isStepBudget ? '⏸' : msg.metadata.notice_kind === 'fallback' ? '⇄' : msg.metadata.notice_kind === 'compaction' ? '⇊' : '↻'}</span>
+                    <span className="chat-notice__text">{typeof msg.content === 'string' ? msg.content : ''}</span>
+                    {/* Continue only makes sense while this is still the end of the conversation */}
+                    {isStepBudget && index === chatHistory.length - 1 && (
+                        <button
+                            className="chat-notice__action"
+                            onClick={() => sendMessage('Continue where you left off and finish the remaining steps.')}
+                            disabled={isLoading}
+                        >
+                            Continue
+                        </button>
+                    )}
+                </div>
+            );
+        }
+
+        const review = msg.metadata?.design_critique;
+        if (review) {
+            const overallScore = review.checks && review.checks.length > 0
+                ? review.checks.reduce((total, check) => total + check.score, 0) / review.checks.length
+                : undefined;
+            return (
+                <div key={index} className={`design-critique design-critique--${review.status}`}>
+                    <div className="design-critique__header">
+                        <span className="design-critique__title">
+                            {review.status === 'running' ? 'Reviewing' : 'Review of'} {review.file.split('/').pop()}
+                        </span>
+                        {overallScore !== undefined && (
+                            <span className="design-critique__score">{overallScore.toFixed(1)}/10</span>
+                        )}
+                    </div>
+                    {review.status === 'error' && (
+                        <div className="design-critique__error">{review.error}</div>
+                    )}
+                    {review.summary && (
+                        <div className="design-critique__summary">{review.summary}</div>
+                    )}
+                    {review.checks?.map(check => (
+                        <div key={check.id} className="design-critique__check">
+                            <div className="design-critique__check-row">
+                                <span className="design-critique__check-label">{CRITIQUE_CHECK_LABELS[check.id] || check.id}</span>
+                                <span className={`design-critique__check-score ${check.score >= 8 ? 'design-critique__check-score--good' : check.score >= 5 ? 'design-critique__check-score--fair' : 'design-critique__check-score--poor'}`}>
+                                    {check.score}/10
+                                </span>
+                            </div>
+                            {check.findings.length > 0 && (
+                                <ul className="design-critique__findings">
+                                    {check.findings.map((finding, findingIndex) => <li key={findingIndex}>{finding}</li>)}
+                                </ul>
+                            )}
+                        </div>
+                    ))}
+                    {review.fixes && review.fixes.length > 0 && (
+                        <button
+                            className="chat-notice__action design-critique__apply"
+                            onClick={() => sendMessage(`Apply the fixes from the design review to ${review.file}:\n${review.fixes!.map(fix => `- ${fix}`).join('\n')}`)}
+                            disabled={isLoading}
+                        >
+                            Apply {review.fixes.length} {review.fixes.length === 1 ? 'fix' : 'fixes'}
+                        </button>
+                    )}
+                </div>
+            );
+        }
+
+        const variationGroup = msg.metadata?.variation_group;
+        if (variationGroup) {
+            const finished = variationGroup.variations.filter(variation => variation.status !== 'running').length;
+            return (
+                <div key={index} className="variation-group">
+                    <div className="variation-group__header">
+                        {finished < variationGroup.variations.length
+                            ? `Generating ${variationGroup.variations.length} variations (${finished} finished)`
+                            : `${variationGroup.variations.length} variations`}
+                    </div>
+                    {variationGroup.variations.map(variation => (
+                        <div key={variation.index} className={`variation-group__item variation-group__item--${variation.status}`}>
+                            <div className="variation-group__row">
+                                <span className="variation-group__status">
+                                    {variation.status === 'running' ? '⟳' : variation.status === 'done' ? '✓' : variation.status === 'error' ? '✗' : '⏹'}
+                                </span>
+                                <span className="variation-group__file">{variation.file.split('/').pop()}</span>
+                                {variation.steps > 0 && (
+                                    <span className="variation-group__steps">{variation.steps} {variation.steps === 1 ? 'step' : 'steps'}</span>
+                                )}
+                            </div>
+                            <div className="variation-group__direction">{variation.direction}</div>
+                            {variation.status === 'running' && variation.activity && (
+                                <div className="variation-group__detail">{variation.activity}</div>
+                            )}
+                            {variation.status !== 'running' && (variation.error || variation.summary) && (
+                                <div className="variation-group__detail">{variation.error || variation.summary}</div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            );
+        }
+
         // Helper function to extract text content from CoreMessage
         const getMessageText = (msg: ChatMessage): string => {
             if (typeof msg.content === 'string') {
                 return msg.content;
             } else if (Array.isArray(msg.content)) {
+                // Mentioned files are attached as later text parts, only the typed message is shown
+                const textParts = msg.content.filter(part => part.type === 'text');
+                if (msg.role === 'user' && msg.metadata?.mentions?.length) {
+                    return (textParts[0] as any)?.text || '';
+                }
                 // Find text parts and concatenate them
-                return msg.content
-                    .filter(part => part.type === 'text')
+                return textParts
                     .map(part => (part as any).text)
                     .join('\n');
             }
@@ -711,7 +1065,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                         part => part.type === 'tool-result' && (part as any).toolCallId === toolCallId
                     );
                     if (toolResultPart) {
-                        return toolResultPart as any;
+                        return { ...toolResultPart, isCancelled: laterMsg.metadata?.is_cancelled || false } as any;
                     }
                 }
             }
@@ -741,10 +1095,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                                 <span className="chat-message__label">Claude</span>
                                 {msg.metadata && (
                                     <span className="chat-message__metadata">
-                                        {msg.metadata.duration_ms && (
+                                        {msg.metadata.duration_ms !== undefined && (
                                             <span className="metadata-item">{msg.metadata.duration_ms}ms</span>
                                         )}
-                                        {msg.metadata.total_cost_usd && (
+                                        {msg.metadata.total_cost_usd !== undefined && (
                                             <span className="metadata-item">${msg.metadata.total_cost_usd.toFixed(4)}</span>
                                         )}
                                     </span>
@@ -758,6 +1112,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                         <div className="chat-message__tools">
                             {renderToolCalls(msg, index, findToolResult)}
                         </div>
+                        {renderUsage(msg)}
+                        {renderBranchButton(index)}
                     </div>
                 );
             } else {
@@ -805,10 +1161,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                         </span>
                         {msg.metadata && (
                             <span className="chat-message__metadata">
-                                {msg.metadata.duration_ms && (
+                                {msg.metadata.duration_ms !== undefined && (
                                     <span className="metadata-item">{msg.metadata.duration_ms}ms</span>
                                 )}
-                                {msg.metadata.total_cost_usd && (
+                                {msg.metadata.total_cost_usd !== undefined && (
                                     <span className="metadata-item">${msg.metadata.total_cost_usd.toFixed(4)}</span>
                                 )}
                             </span>
@@ -854,8 +1210,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                             return messageText;
                         })()
                     )}
+                    {msg.role === 'user' && msg.metadata?.mentions && msg.metadata.mentions.length > 0 && (
+                        <div className="mention-chips">
+                            {msg.metadata.mentions.map(mentionPath => (
+                                <span key={mentionPath} className="mention-chip" title={mentionPath}>
+                                    <span className="mention-chip__name">@{getFileName(mentionPath)}</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
                     {isStreaming && <span className="streaming-cursor">▋</span>}
                 </div>
+                {msg.role === 'assistant' && renderUsage(msg)}
+                {(msg.role === 'user' || msg.role === 'assistant') && renderBranchButton(index)}
                 {isLastUserMessage && (
                     <div className="generating-content">
                         <span className="generating-text">Generating</span>
@@ -865,6 +1232,52 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
         );
     };
 
+    // "Branch from here" starts a new session with the history up to this message
+    const renderBranchButton = (index: number) => {
+        if (isLoading || !sessionId) {
+            return null;
+        }
+        return (
+            <button
+                className="chat-message__branch"
+                onClick={() => forkSession(index)}
+                title="Branch from here: continue in a new session with the conversation up to this message"
+            >
+                ⑂
+            </button>
+        );
+    };
+
+    const formatTokens = (count: number): string => {
+        return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+    };
+
+    const formatCost = (costUsd: number): string => {
+        return costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+    };
+
+    const hasText = (msg: ChatMessage): boolean => {
+        return Array.isArray(msg.content) && msg.content.some(part => part.type === 'text' && (part as any).text?.trim());
+    };
+
+    // Token usage line under an assistant message
+    const renderUsage = (msg: ChatMessage) => {
+        const metadata = msg.metadata;
+        if (metadata?.input_tokens === undefined) {
+            return null;
+        }
+
+        return (
+            <div className="chat-message__usage" title={metadata.model ? `Model: ${metadata.model}` : undefined}>
+                <span>{formatTokens(metadata.input_tokens)} in</span>
+                <span>{formatTokens(metadata.output_tokens || 0)} out</span>
+                {metadata.total_cost_usd !== undefined && (
+                    <span>{formatCost(metadata.total_cost_usd)}</span>
+                )}
+            </div>
+        );
+    };
+
     // New function to handle multiple tool calls in a single message
     const renderToolCalls = (msg: ChatMessage, index: number, findToolResult: (toolCallId: string) => any) => {
         if (!Array.isArray(msg.content)) {
@@ -884,6 +1297,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                 {toolCallParts.map((toolCallPart, subIndex) => 
                     renderSingleToolCall(toolCallPart, index, subIndex, findToolResult)
                 )}
+                {!hasText(msg) && renderUsage(msg)}
             </div>
         );
     };
@@ -969,6 +1383,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
             
             // Tool is complete when it has finished (regardless of errors)
             const toolComplete = hasResult && !isLoading;
+            const toolCancelled = toolComplete && toolResultPart?.isCancelled;
             
             // Get the countdown timer for this specific tool
             const timerRemaining = toolTimers[uniqueKey] || 0;
@@ -1093,7 +1508,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                 : prompt;
             
             return (
-                <div key={uniqueKey} className={`tool-message tool-message--${layout} ${toolComplete ? 'tool-message--complete' : ''} ${isLoading ? 'tool-message--loading' : ''}`}>
+                <div key={uniqueKey} className={`tool-message tool-message--${layout} ${toolComplete ? 'tool-message--complete' : ''} ${toolCancelled ? 'tool-message--cancelled' : ''} ${isLoading ? 'tool-message--loading' : ''}`}>
                     <div 
                         className="tool-message__header"
                         onClick={toggleExpanded}
@@ -1121,7 +1536,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                             </div>
                         </div>
                         <div className="tool-actions">
-                            {toolComplete && (
+                            {toolCancelled ? (
+                                <span className="tool-status tool-status--cancelled" title="Cancelled">
+                                    Cancelled
+                                </span>
+                            ) : toolComplete && (
                                 <span className="tool-status tool-status--complete">
                                     <CheckIcon />
                                 </span>
@@ -1388,6 +1807,37 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                             </div>
                         ) : null}
 
+                        {/* Attached image thumbnails */}
+                        {currentContext && (currentContext.type === 'image' || currentContext.type === 'images') && (
+                            <div className="image-attachments">
+                                {currentContext.fileName.split(', ').map(imagePath => {
+                                    const fileName = imagePath.split(/[\\/]/).pop() || imagePath;
+                                    const preview = imagePreviews[fileName];
+                                    return (
+                                        <div key={imagePath} className="image-attachment" title={imagePath}>
+                                            {preview ? (
+                                                <img className="image-attachment__thumbnail" src={preview.dataUrl} alt={fileName} />
+                                            ) : (
+                                                <span className="image-attachment__thumbnail image-attachment__thumbnail--placeholder">🖼️</span>
+                                            )}
+                                            <span className="image-attachment__info">
+                                                {preview
+                                                    ? `${preview.width}×${preview.height} · ${formatImageSize(preview.size)}`
+                                                    : fileName}
+                                            </span>
+                                            <button
+                                                className="image-attachment__remove"
+                                                onClick={() => handleRemoveImage(imagePath)}
+                                                title="Remove image"
+                                            >
+                                                ×
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
                         {/* Upload Progress */}
                         {uploadingImages.length > 0 && (
                             <div className="upload-progress">
@@ -1420,10 +1870,73 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
 
                         {/* Input Area */}
                     <div className="chat-input">
+                            {matchingCommands.length > 0 && (
+                                <div className="input-suggestions">
+                                    {matchingCommands.map((command, index) => (
+                                        <div
+                                            key={command.name}
+                                            className={`input-suggestion ${index === selectedSuggestionIndex ? 'selected' : ''}`}
+                                            onMouseDown={(e) => {
+                                                // Keep focus in the textarea
+                                                e.preventDefault();
+                                                handleSelectCommand(command);
+                                            }}
+                                            onMouseEnter={() => setSelectedSuggestionIndex(index)}
+                                        >
+                                            <span className="input-suggestion__name">/{command.name}</span>
+                                            {command.argumentHint && <span className="input-suggestion__hint">{command.argumentHint}</span>}
+                                            <span className="input-suggestion__description">
+                                                {command.description}{command.source === 'workspace' ? ' (workspace)' : ''}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            {matchingCommands.length === 0 && visibleMentionCandidates.length > 0 && (
+                                <div className="input-suggestions">
+                                    {visibleMentionCandidates.map((candidate, index) => (
+                                        <div
+                                            key={candidate.path}
+                                            className={`input-suggestion ${index === selectedSuggestionIndex ? 'selected' : ''}`}
+                                            onMouseDown={(e) => {
+                                                e.preventDefault();
+                                                handleSelectMention(candidate);
+                                            }}
+                                            onMouseEnter={() => setSelectedSuggestionIndex(index)}
+                                            title={candidate.path}
+                                        >
+                                            <span>{MENTION_ICONS[candidate.kind]}</span>
+                                            <span className="input-suggestion__name">{getFileName(candidate.path)}</span>
+                                            <span className="input-suggestion__description">{candidate.path}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            {activeCommand?.argumentHint && (
+                                <div className="slash-command-usage">/{activeCommand.name} {activeCommand.argumentHint}</div>
+                            )}
+                            {mentions.length > 0 && (
+                                <div className="mention-chips">
+                                    {mentions.map(mention => (
+                                        <span key={mention.path} className="mention-chip" title={mention.path}>
+                                            <span>{MENTION_ICONS[mention.kind]}</span>
+                                            <span className="mention-chip__name">{getFileName(mention.path)}</span>
+                                            <button
+                                                className="mention-chip__remove"
+                                                onClick={() => handleRemoveMention(mention.path)}
+                                                title="Remove"
+                                            >
+                                                ×
+                                            </button>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
                             <textarea
-                                placeholder="Design a calculator UI..."
+                                placeholder="Design a calculator UI... (/ for commands)"
                             value={inputMessage}
                             onChange={handleInputChange}
+                            onKeyDown={handleKeyDown}
                             onKeyPress={handleKeyPress}
                             disabled={isLoading || showWelcome}
                             className="message-input"
@@ -1445,11 +1958,46 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                                         selectedModel={selectedModel}
                                         onModelChange={handleModelChange}
                                         disabled={isLoading || showWelcome}
+                                        models={models}
+                                        pinnedModels={pinnedModels}
+                                        hiddenModels={hiddenModels}
+                                        onTogglePinned={handleToggleModelPinned}
+                                        onToggleHidden={handleToggleModelHidden}
+                                        activeEndpoint={activeEndpoint}
+                                    />
+                                </div>
+                                <div className="selector-wrapper">
+                                    <SessionSwitcher
+                                        sessions={sessions}
+                                        currentSessionId={sessionId}
+                                        onOpen={listSessions}
+                                        onSelect={switchSession}
+                                        disabled={isLoading || showWelcome}
                                     />
                                 </div>
+                                {sessionUsage.inputTokens > 0 && (
+                                    <span
+                                        className="session-usage"
+                                        title={`Session: ${sessionUsage.inputTokens.toLocaleString()} input, ${sessionUsage.outputTokens.toLocaleString()} output tokens${sessionUsage.hasUnpricedUsage ? ' (some models have no known price)' : ''}`}
+                                    >
+                                        {formatTokens(sessionUsage.inputTokens + sessionUsage.outputTokens)} tokens · {formatCost(sessionUsage.costUsd)}{sessionUsage.hasUnpricedUsage ? '+' : ''}
+                                    </span>
+                                )}
                             </div>
                             
                             <div className="input-actions">
+                                <select
+                                    className="variation-count-select"
+                                    value={variationCount}
+                                    onChange={(e) => setVariationCount(Number(e.target.value))}
+                                    disabled={isLoading || showWelcome}
+                                    title="Generate several design variations in parallel"
+                                >
+                                    <option value={0}>1 design</option>
+                                    {[2, 3, 4, 5, 6].map(count => (
+                                        <option key={count} value={count}>{count} variations</option>
+                                    ))}
+                                </select>
                                 <button 
                                     className="attach-btn"
                                     onClick={() => {
@@ -1482,10 +2030,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ layout, vscode }) => {
                                 </button>
                                 {isLoading ? (
                                     <button 
-                                        onClick={() => {
-                                            // Stop functionality can be added later
-                                            console.log('Stop requested');
-                                        }}
+                                        onClick={() => vscode.postMessage({ command: 'stopChat' })}
                                         className="send-btn stop-btn"
                                         title="Stop response"
                                     >
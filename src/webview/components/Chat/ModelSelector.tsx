@@ -5,71 +5,97 @@ interface ModelSelectorProps {
     selectedModel: string;
     onModelChange: (model: string) => void;
     disabled?: boolean;
+    models: ModelOption[];
+    pinnedModels?: string[];
+    hiddenModels?: string[];
+    onTogglePinned?: (modelId: string) => void;
+    onToggleHidden?: (modelId: string) => void;
+    activeEndpoint?: ActiveEndpoint | null;
 }
 
-interface ModelOption {
+export interface ActiveEndpoint {
+    baseUrl: string;
+    isOverride: boolean;
+}
+
+// Model catalog entry as sent by the extension
+export interface ModelOption {
     id: string;
     name: string;
     provider: string;
     category: string;
+    contextWindow?: number;
+    vision?: boolean;
+    toolCalling?: boolean;
+    price?: {
+        input: number;
+        output: number;
+    };
 }
 
-const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onModelChange, disabled }) => {
+const ModelSelector: React.FC<ModelSelectorProps> = ({
+    selectedModel,
+    onModelChange,
+    disabled,
+    models,
+    pinnedModels = [],
+    hiddenModels = [],
+    onTogglePinned,
+    onToggleHidden,
+    activeEndpoint
+}) => {
     const [isOpen, setIsOpen] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
+    const [showHidden, setShowHidden] = useState(false);
     const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0 });
     const triggerRef = useRef<HTMLButtonElement>(null);
     const modalRef = useRef<HTMLDivElement>(null);
 
-    const models: ModelOption[] = [
-        // Anthropic
-        { id: 'claude-4-opus-20250514', name: 'Claude 4 Opus', provider: 'Anthropic', category: 'Premium' },
-        { id: 'claude-4-sonnet-20250514', name: 'Claude 4 Sonnet', provider: 'Anthropic', category: 'Balanced' },
-        { id: 'claude-3-7-sonnet-20250219', name: 'Claude 3.7 Sonnet', provider: 'Anthropic', category: 'Balanced' },
-        { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet', provider: 'Anthropic', category: 'Balanced' },
-        // Google (OpenRouter)
-        { id: 'google/gemini-2.5-pro', name: 'Gemini 2.5 Pro', provider: 'OpenRouter (Google)', category: 'Balanced' },
-        // Meta (OpenRouter)
-        { id: 'meta-llama/llama-4-maverick-17b-128e-instruct', name: 'Llama 4 Maverick 17B', provider: 'OpenRouter (Meta)', category: 'Balanced' },
-        // DeepSeek (OpenRouter)
-        { id: 'deepseek/deepseek-r1', name: 'DeepSeek R1', provider: 'OpenRouter (DeepSeek)', category: 'Balanced' },
-        // Mistral (OpenRouter)
-        { id: 'mistralai/mistral-small-3.2-24b-instruct-2506', name: 'Mistral Small 3.2 24B', provider: 'OpenRouter (Mistral)', category: 'Balanced' },
-        // xAI (OpenRouter)
-        { id: 'x-ai/grok-3', name: 'Grok 3', provider: 'OpenRouter (xAI)', category: 'Balanced' },
-        // Qwen (OpenRouter)
-        { id: 'qwen/qwen3-235b-a22b-04-28', name: 'Qwen3 235B', provider: 'OpenRouter (Qwen)', category: 'Balanced' },
-        // Perplexity (OpenRouter)
-        { id: 'perplexity/sonar-reasoning-pro', name: 'Sonar Reasoning Pro', provider: 'OpenRouter (Perplexity)', category: 'Balanced' },
-        // Microsoft (OpenRouter)
-        { id: 'microsoft/phi-4-reasoning-plus-04-30', name: 'Phi-4 Reasoning Plus', provider: 'OpenRouter (Microsoft)', category: 'Balanced' },
-        // NVIDIA (OpenRouter)
-        { id: 'nvidia/llama-3.3-nemotron-super-49b-v1', name: 'Llama 3.3 Nemotron Super 49B', provider: 'OpenRouter (NVIDIA)', category: 'Balanced' },
-        // Cohere (OpenRouter)
-        { id: 'cohere/command-a-03-2025', name: 'Command A', provider: 'OpenRouter (Cohere)', category: 'Balanced' },
-        // Amazon (OpenRouter)
-        { id: 'amazon/nova-pro-v1', name: 'Nova Pro', provider: 'OpenRouter (Amazon)', category: 'Balanced' },
-        // Inflection (OpenRouter)
-        { id: 'inflection/inflection-3-productivity', name: 'Inflection 3 Productivity', provider: 'OpenRouter (Inflection)', category: 'Balanced' },
-        // Reka (OpenRouter)
-        { id: 'rekaai/reka-flash-3', name: 'Reka Flash 3', provider: 'OpenRouter (Reka)', category: 'Balanced' },
-        // Existing OpenAI (direct)
-        { id: 'gpt-4.1', name: 'GPT-4.1', provider: 'OpenAI', category: 'Balanced' },
-        { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', provider: 'OpenAI', category: 'Fast' }
-    ];
-
-    const filteredModels = models.filter(model =>
+    const matchesSearch = (model: ModelOption) =>
         model.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        model.provider.toLowerCase().includes(searchTerm.toLowerCase())
-    );
+        model.provider.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        model.id.toLowerCase().includes(searchTerm.toLowerCase());
+
+    // The selected model stays visible even when hidden, so the check mark never disappears
+    const isListed = (model: ModelOption) =>
+        showHidden || model.id === selectedModel || !hiddenModels.includes(model.id);
+
+    const pinnedOptions = pinnedModels
+        .map(id => models.find(model => model.id === id))
+        .filter((model): model is ModelOption => !!model);
+    const filteredModels = [
+        ...pinnedOptions,
+        ...models.filter(model => !pinnedModels.includes(model.id))
+    ].filter(model => isListed(model) && matchesSearch(model));
+
+    const hiddenCount = models.filter(model => hiddenModels.includes(model.id)).length;
+
+    const formatContextWindow = (tokens: number) =>
+        tokens >= 1000000 ? `${Math.round(tokens / 100000) / 10}M` : `${Math.round(tokens / 1000)}K`;
+
+    const getModelDetails = (model: ModelOption) => [
+        model.provider,
+        model.contextWindow ? formatContextWindow(model.contextWindow) : null,
+        model.vision ? 'vision' : null,
+        model.toolCalling === false ? 'no tools' : null
+    ].filter(Boolean).join(' · ');
+
+    const getModelTitle = (model: ModelOption) => model.price
+        ? `${model.id}\n$${model.price.input} / $${model.price.output} per 1M input / output tokens`
+        : model.id;
 
     const selectedModelName = models.find(m => m.id === selectedModel)?.name || selectedModel;
 
+    const endpointLabel = activeEndpoint
+        ? `${activeEndpoint.baseUrl}${activeEndpoint.isOverride ? ' (override)' : ''}`
+        : '';
+
     const calculateDropdownPosition = () => {
         if (!triggerRef.current) return;
 
         const triggerRect = triggerRef.current.getBoundingClientRect();
-        const modalHeight = 190; // Reduced from 220 since we removed add models section
+        // Footer lines (hidden models toggle, endpoint) add to the list height
+        const modalHeight = 190 + (activeEndpoint ? 22 : 0) + (hiddenCount > 0 ? 22 : 0);
         const modalWidth = 240;
         const padding = 8;
 
@@ -130,6 +156,16 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onModelCha
         };
     }, [isOpen]);
 
+    const handleTogglePinned = (event: React.MouseEvent, modelId: string) => {
+        event.stopPropagation();
+        onTogglePinned?.(modelId);
+    };
+
+    const handleToggleHidden = (event: React.MouseEvent, modelId: string) => {
+        event.stopPropagation();
+        onToggleHidden?.(modelId);
+    };
+
     const handleModelSelect = (modelId: string) => {
         onModelChange(modelId);
         setIsOpen(false);
@@ -209,7 +245,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onModelCha
                         border: 1px solid var(--vscode-dropdown-border);
                         border-radius: 4px;
                         width: 240px;
-                        max-height: 190px;
+                        max-height: 234px;
                         box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
                         overflow: hidden;
                         pointer-events: auto;
@@ -344,6 +380,62 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onModelCha
                         opacity: 0.8;
                     }
 
+                    .model-selector-endpoint {
+                        padding: 4px 8px;
+                        border-top: 1px solid var(--vscode-dropdown-border);
+                        font-size: 9px;
+                        color: var(--vscode-descriptionForeground);
+                        white-space: nowrap;
+                        overflow: hidden;
+                        text-overflow: ellipsis;
+                    }
+
+                    .model-selector-endpoint.override {
+                        color: var(--vscode-editorWarning-foreground);
+                    }
+
+                    .model-option.hidden-model {
+                        opacity: 0.6;
+                    }
+
+                    .model-actions {
+                        display: none;
+                        flex-shrink: 0;
+                        gap: 2px;
+                    }
+
+                    .model-option:hover .model-actions {
+                        display: flex;
+                    }
+
+                    .model-action {
+                        background: none;
+                        border: none;
+                        padding: 0 3px;
+                        font-size: 11px;
+                        line-height: 1;
+                        cursor: pointer;
+                        color: var(--vscode-descriptionForeground);
+                    }
+
+                    .model-action:hover,
+                    .model-action.active {
+                        color: var(--vscode-foreground);
+                    }
+
+                    .model-selector-toggle-hidden {
+                        display: block;
+                        width: 100%;
+                        padding: 4px 8px;
+                        border: none;
+                        border-top: 1px solid var(--vscode-dropdown-border);
+                        background: none;
+                        text-align: left;
+                        font-size: 10px;
+                        color: var(--vscode-textLink-foreground);
+                        cursor: pointer;
+                    }
+
                     .model-check {
                         flex-shrink: 0;
                         color: var(--vscode-list-activeSelectionForeground);
@@ -363,6 +455,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onModelCha
                     className="model-selector-trigger"
                     onClick={handleToggleOpen}
                     disabled={disabled}
+                    title={endpointLabel ? `Endpoint: ${endpointLabel}` : undefined}
                 >
                     <div className="selector-icon model-icon">
                         <BrainIcon />
@@ -407,25 +500,65 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onModelCha
                             </div>
 
                             <div className="model-selector-list">
-                                {filteredModels.map((model) => (
-                                    <button
-                                        key={model.id}
-                                        className={`model-option ${model.id === selectedModel ? 'selected' : ''}`}
-                                        onClick={() => handleModelSelect(model.id)}
-                                    >
-                                        <div className="model-icon">
-                                            <BrainIcon />
-                                        </div>
-                                        <div className="model-info">
-                                            <div className="model-name">{model.name}</div>
-                                            <div className="model-provider">{model.provider}</div>
+                                {filteredModels.map((model) => {
+                                    const isPinned = pinnedModels.includes(model.id);
+                                    const isHidden = hiddenModels.includes(model.id);
+                                    return (
+                                        <div
+                                            key={model.id}
+                                            className={`model-option ${model.id === selectedModel ? 'selected' : ''} ${isHidden ? 'hidden-model' : ''}`}
+                                            onClick={() => handleModelSelect(model.id)}
+                                            title={getModelTitle(model)}
+                                            role="button"
+                                        >
+                                            <div className="model-icon">
+                                                <BrainIcon />
+                                            </div>
+                                            <div className="model-info">
+                                                <div className="model-name">{model.name}</div>
+                                                <div className="model-provider">{getModelDetails(model)}</div>
+                                            </div>
+                                            <div className="model-actions">
+                                                <button
+                                                    className={`model-action ${isPinned ? 'active' : ''}`}
+                                                    onClick={(e) => handleTogglePinned(e, model.id)}
+                                                    title={isPinned ? 'Unpin model' : 'Pin model'}
+                                                >
+                                                    {isPinned ? '★' : '☆'}
+                                                </button>
+                                                <button
+                                                    className="model-action"
+                                                    onClick={(e) => handleToggleHidden(e, model.id)}
+                                                    title={isHidden ? 'Show model' : 'Hide model'}
+                                                >
+                                                    {isHidden ? '+' : '−'}
+                                                </button>
+                                            </div>
+                                            {model.id === selectedModel && (
+                                                <div className="model-check">✓</div>
+                                            )}
                                         </div>
-                                        {model.id === selectedModel && (
-                                            <div className="model-check">✓</div>
-                                        )}
-                                    </button>
-                                ))}
+                                    );
+                                })}
                             </div>
+
+                            {hiddenCount > 0 && (
+                                <button
+                                    className="model-selector-toggle-hidden"
+                                    onClick={() => setShowHidden(!showHidden)}
+                                >
+                                    {showHidden ? 'Hide hidden models' : `Show ${hiddenCount} hidden model${hiddenCount === 1 ? '' : 's'}`}
+                                </button>
+                            )}
+
+                            {activeEndpoint && (
+                                <div
+                                    className={`model-selector-endpoint ${activeEndpoint.isOverride ? 'override' : ''}`}
+                                    title={endpointLabel}
+                                >
+                                    Endpoint: {endpointLabel}
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
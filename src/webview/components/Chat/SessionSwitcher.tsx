@@ -0,0 +1,258 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SessionSummary } from '../../hooks/useChat';
+
+interface SessionSwitcherProps {
+    sessions: SessionSummary[];
+    currentSessionId?: string;
+    onOpen: () => void;
+    onSelect: (sessionId: string) => void;
+    disabled?: boolean;
+}
+
+// Branches are listed right under the session they were forked from
+const orderAsTree = (sessions: SessionSummary[]): { session: SessionSummary; depth: number }[] => {
+    const ids = new Set(sessions.map(session => session.id));
+    const children = (parentId?: string) => sessions.filter(session =>
+        parentId ? session.parentId === parentId : !session.parentId || !ids.has(session.parentId)
+    );
+
+    const ordered: { session: SessionSummary; depth: number }[] = [];
+    const visit = (session: SessionSummary, depth: number) => {
+        ordered.push({ session, depth });
+        children(session.id).forEach(child => visit(child, depth + 1));
+    };
+    children().forEach(session => visit(session, 0));
+    return ordered;
+};
+
+const getFileName = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath;
+
+const SessionSwitcher: React.FC<SessionSwitcherProps> = ({
+    sessions,
+    currentSessionId,
+    onOpen,
+    onSelect,
+    disabled
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0 });
+    const triggerRef = useRef<HTMLButtonElement>(null);
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    const currentSession = sessions.find(session => session.id === currentSessionId);
+    const ordered = orderAsTree(sessions);
+
+    const getSessionDetails = (session: SessionSummary) => [
+        `${session.messageCount} message${session.messageCount === 1 ? '' : 's'}`,
+        session.designFiles.length > 0 ? session.designFiles.map(getFileName).join(', ') : null
+    ].filter(Boolean).join(' · ');
+
+    const calculateDropdownPosition = () => {
+        if (!triggerRef.current) return;
+
+        const triggerRect = triggerRef.current.getBoundingClientRect();
+        const modalHeight = 220;
+        const modalWidth = 260;
+        const padding = 8;
+
+        // Above the trigger unless there is no room
+        let top = triggerRect.top - modalHeight - padding;
+        if (top < padding) {
+            top = triggerRect.bottom + padding;
+        }
+
+        let left = triggerRect.left;
+        if (left + modalWidth > window.innerWidth - padding) {
+            left = window.innerWidth - modalWidth - padding;
+        }
+        if (left < padding) {
+            left = padding;
+        }
+
+        setDropdownPosition({ top, left });
+    };
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (modalRef.current && !modalRef.current.contains(event.target as Node) &&
+                triggerRef.current && !triggerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        const handleResize = () => {
+            if (isOpen) {
+                calculateDropdownPosition();
+            }
+        };
+
+        if (isOpen) {
+            calculateDropdownPosition();
+            document.addEventListener('mousedown', handleClickOutside);
+            window.addEventListener('resize', handleResize);
+        }
+
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+            window.removeEventListener('resize', handleResize);
+        };
+    }, [isOpen]);
+
+    const handleToggleOpen = () => {
+        if (!isOpen) {
+            // Titles and design files change as the conversation goes on, so the list is fetched on open
+            onOpen();
+            calculateDropdownPosition();
+        }
+        setIsOpen(!isOpen);
+    };
+
+    const handleSessionSelect = (sessionId: string) => {
+        onSelect(sessionId);
+        setIsOpen(false);
+    };
+
+    return (
+        <>
+            <style>
+                {`
+                    .session-switcher-trigger {
+                        background: transparent;
+                        color: var(--vscode-foreground);
+                        border: none;
+                        outline: none;
+                        font-size: 11px;
+                        font-family: inherit;
+                        cursor: pointer;
+                        padding: 2px 6px;
+                        border-radius: 4px;
+                        max-width: 140px;
+                        white-space: nowrap;
+                        overflow: hidden;
+                        text-overflow: ellipsis;
+                        transition: background-color 0.2s ease;
+                    }
+
+                    .session-switcher-trigger:hover:not(:disabled) {
+                        background: var(--vscode-list-hoverBackground);
+                    }
+
+                    .session-switcher-trigger:disabled {
+                        opacity: 0.5;
+                        cursor: not-allowed;
+                    }
+
+                    .session-switcher-modal {
+                        position: fixed;
+                        top: 0;
+                        left: 0;
+                        right: 0;
+                        bottom: 0;
+                        background: transparent;
+                        z-index: 1000;
+                        pointer-events: none;
+                    }
+
+                    .session-switcher-content {
+                        position: absolute;
+                        background: var(--vscode-dropdown-background);
+                        border: 1px solid var(--vscode-dropdown-border);
+                        border-radius: 4px;
+                        width: 260px;
+                        max-height: 220px;
+                        overflow-y: auto;
+                        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+                        pointer-events: auto;
+                    }
+
+                    .session-option {
+                        display: flex;
+                        flex-direction: column;
+                        padding: 4px 8px;
+                        cursor: pointer;
+                        min-height: 28px;
+                        justify-content: center;
+                        box-sizing: border-box;
+                    }
+
+                    .session-option:hover {
+                        background: var(--vscode-list-hoverBackground);
+                    }
+
+                    .session-option.selected {
+                        background: var(--vscode-list-activeSelectionBackground);
+                        color: var(--vscode-list-activeSelectionForeground);
+                    }
+
+                    .session-title {
+                        font-size: 11px;
+                        font-weight: 500;
+                        white-space: nowrap;
+                        overflow: hidden;
+                        text-overflow: ellipsis;
+                    }
+
+                    .session-details {
+                        font-size: 9px;
+                        color: var(--vscode-descriptionForeground);
+                        white-space: nowrap;
+                        overflow: hidden;
+                        text-overflow: ellipsis;
+                    }
+
+                    .session-option.selected .session-details {
+                        color: var(--vscode-list-activeSelectionForeground);
+                        opacity: 0.8;
+                    }
+
+                    .session-switcher-empty {
+                        padding: 8px;
+                        font-size: 11px;
+                        color: var(--vscode-descriptionForeground);
+                    }
+                `}
+            </style>
+
+            <button
+                ref={triggerRef}
+                className="session-switcher-trigger"
+                onClick={handleToggleOpen}
+                disabled={disabled}
+                title="Switch conversation or branch"
+            >
+                {currentSession?.parentId ? '⑂ ' : ''}{currentSession?.title || 'Conversations'}
+            </button>
+
+            {isOpen && (
+                <div className="session-switcher-modal">
+                    <div
+                        className="session-switcher-content"
+                        ref={modalRef}
+                        style={{
+                            top: dropdownPosition.top,
+                            left: dropdownPosition.left
+                        }}
+                    >
+                        {ordered.length === 0 ? (
+                            <div className="session-switcher-empty">No saved conversations yet</div>
+                        ) : ordered.map(({ session, depth }) => (
+                            <div
+                                key={session.id}
+                                className={`session-option ${session.id === currentSessionId ? 'selected' : ''}`}
+                                style={{ paddingLeft: 8 + depth * 12 }}
+                                onClick={() => handleSessionSelect(session.id)}
+                                title={session.designFiles.length > 0 ? session.designFiles.join('\n') : session.title}
+                                role="button"
+                            >
+                                <div className="session-title">{session.parentId ? '⑂ ' : ''}{session.title}</div>
+                                <div className="session-details">{getSessionDetails(session)}</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
+
+export default SessionSwitcher;
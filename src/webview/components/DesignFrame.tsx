@@ -219,7 +219,7 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
         e.stopPropagation();
         
         if (onSendToChat) {
-            onSendToChat(file.name, 'Create more variations based on this style');
+            onSendToChat(file.name, '/variations 3 ');
         }
     };
 
@@ -228,7 +228,7 @@ const DesignFrame: React.FC<DesignFrameProps> = ({
         e.stopPropagation();
         
         if (onSendToChat) {
-            onSendToChat(file.name, 'Please create a few variations with this feedback: ');
+            onSendToChat(file.name, '/iterate ');
         }
     };
 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { CoreMessage } from 'ai';
 
 // Additional metadata for UI state
@@ -12,8 +12,21 @@ interface MessageMetadata {
     session_id?: string;
     result_type?: string;
     is_error?: boolean;
+    // Status line shown in the chat (retry, model fallback), never sent to the model
+    is_notice?: boolean;
+    notice_kind?: string;
     duration_ms?: number;
     total_cost_usd?: number;
+    // Token usage, summed over the model steps that produced this message
+    model?: string;
+    input_tokens?: number;
+    output_tokens?: number;
+    // Parallel variation runs grouped into this message
+    variation_group?: VariationGroup;
+    // Critic review of a design the previous turn wrote
+    design_critique?: DesignCritiqueState;
+    // Approve/Deny card for a tool call waiting on the user
+    tool_approval?: ToolApprovalState;
     // Tool-related metadata
     tool_name?: string;
     tool_id?: string;
@@ -21,6 +34,10 @@ interface MessageMetadata {
     tool_result?: any;
     result_is_error?: boolean;
     result_received?: boolean;
+    // Tool result of a call the user stopped
+    is_cancelled?: boolean;
+    // Workspace files @-mentioned in a user message, their content follows the text part
+    mentions?: string[];
     actions?: Array<{
         text: string;
         command: string;
@@ -28,17 +45,90 @@ interface MessageMetadata {
     }>;
 }
 
+export type VariationStatus = 'running' | 'done' | 'error' | 'cancelled';
+
+// One run of a "Generate N variations" request
+export interface VariationRun {
+    index: number;
+    direction: string;
+    file: string;
+    status: VariationStatus;
+    activity?: string;
+    steps: number;
+    summary?: string;
+    error?: string;
+}
+
+export interface VariationGroup {
+    id: string;
+    variations: VariationRun[];
+}
+
+export interface DesignCritiqueCheck {
+    id: 'responsiveness' | 'contrast' | 'tokens' | 'rules';
+    score: number;
+    findings: string[];
+}
+
+export interface DesignCritiqueState {
+    id: string;
+    file: string;
+    status: 'running' | 'done' | 'error';
+    summary?: string;
+    checks?: DesignCritiqueCheck[];
+    fixes?: string[];
+    error?: string;
+}
+
+export type ToolApprovalDecision = 'approve' | 'deny' | 'always';
+
+export interface ToolApprovalState {
+    id: string;
+    toolName: string;
+    reason: string;
+    args: any;
+    status: 'pending' | ToolApprovalDecision;
+}
+
+// Saved conversation as listed by the extension
+export interface SessionSummary {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messageCount: number;
+    parentId?: string;
+    designFiles: string[];
+}
+
 // Message with metadata for UI
 export type ChatMessage = CoreMessage & {
     metadata?: MessageMetadata;
 };
 
+// Running totals for the current conversation
+export interface SessionUsage {
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    // True when some steps used a model without a known price
+    hasUnpricedUsage: boolean;
+}
+
 export interface ChatHookResult {
     chatHistory: ChatMessage[];
     isLoading: boolean;
-    sendMessage: (message: string) => void;
+    sessionUsage: SessionUsage;
+    sendMessage: (message: string, metadata?: MessageMetadata) => void;
+    sendVariations: (message: string, count: number, contextFile?: string, metadata?: MessageMetadata) => void;
+    respondToToolApproval: (approvalId: string, decision: ToolApprovalDecision) => void;
     clearHistory: () => void;
     setChatHistory: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+    sessionId?: string;
+    sessions: SessionSummary[];
+    listSessions: () => void;
+    switchSession: (sessionId: string) => void;
+    forkSession: (messageIndex: number) => void;
 }
 
 // Tool time estimation map (in seconds)
@@ -83,6 +173,18 @@ function getToolTimeEstimate(toolName: string): number {
     return TOOL_TIME_ESTIMATES.default;
 }
 
+const SESSION_SAVE_DELAY_MS = 1000;
+
+// Notices such as approval cards can arrive between the tool calls of one step,
+// they must not split the step's assistant message
+function findLastMessageIndex(history: ChatMessage[]): number {
+    let index = history.length - 1;
+    while (index >= 0 && history[index].metadata?.is_notice) {
+        index--;
+    }
+    return index;
+}
+
 export function useChat(vscode: any): ChatHookResult {
     const [chatHistory, setChatHistory] = useState<ChatMessage[]>(() => {
         // Initialize with persisted chat history from localStorage
@@ -95,6 +197,10 @@ export function useChat(vscode: any): ChatHookResult {
         }
     });
     const [isLoading, setIsLoading] = useState(false);
+    // Session the history is saved under, undefined until the extension answers loadSession
+    const [sessionId, setSessionId] = useState<string | undefined>(undefined);
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
 
     // Persist chat history to localStorage whenever it changes
     useEffect(() => {
@@ -105,17 +211,108 @@ export function useChat(vscode: any): ChatHookResult {
         }
     }, [chatHistory]);
 
+    // Ask the extension for the last session of this workspace
+    useEffect(() => {
+        vscode.postMessage({ command: 'loadSession' });
+    }, [vscode]);
+
+    // Save the session in the extension as well, debounced since streaming
+    // updates the history on every chunk
+    useEffect(() => {
+        if (!sessionId || chatHistory.length === 0) {
+            return;
+        }
+        clearTimeout(saveTimeoutRef.current);
+        saveTimeoutRef.current = setTimeout(() => {
+            vscode.postMessage({ command: 'saveSession', sessionId, messages: chatHistory });
+        }, SESSION_SAVE_DELAY_MS);
+        return () => clearTimeout(saveTimeoutRef.current);
+    }, [chatHistory, sessionId, vscode]);
+
+    const sessionUsage = useMemo<SessionUsage>(() => {
+        const totals: SessionUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0, hasUnpricedUsage: false };
+        for (const msg of chatHistory) {
+            if (msg.metadata?.input_tokens === undefined) {
+                continue;
+            }
+            totals.inputTokens += msg.metadata.input_tokens;
+            totals.outputTokens += msg.metadata.output_tokens || 0;
+            if (msg.metadata.total_cost_usd === undefined) {
+                totals.hasUnpricedUsage = true;
+            } else {
+                totals.costUsd += msg.metadata.total_cost_usd;
+            }
+        }
+        return totals;
+    }, [chatHistory]);
+
+    const updateToolApproval = (approvalId: string, decision: ToolApprovalDecision) => {
+        setChatHistory(prev => prev.map(msg => msg.metadata?.tool_approval?.id === approvalId
+            ? { ...msg, metadata: { ...msg.metadata, tool_approval: { ...msg.metadata.tool_approval, status: decision } } } as ChatMessage
+            : msg
+        ));
+    };
+
+    const respondToToolApproval = useCallback((approvalId: string, decision: ToolApprovalDecision) => {
+        updateToolApproval(approvalId, decision);
+        vscode.postMessage({
+            command: 'toolApprovalResponse',
+            approvalId,
+            decision
+        });
+    }, [vscode]);
+
+    // Write the current session right away instead of waiting for the debounce,
+    // so nothing is lost when another session replaces the history
+    const flushSession = useCallback(() => {
+        clearTimeout(saveTimeoutRef.current);
+        if (sessionId && chatHistory.length > 0) {
+            vscode.postMessage({ command: 'saveSession', sessionId, messages: chatHistory });
+        }
+    }, [chatHistory, sessionId, vscode]);
+
     const clearHistory = useCallback(() => {
+        flushSession();
         setChatHistory([]);
+        // The cleared conversation stays on disk, new messages go to a new session.
+        // It is saved empty right away so a reload resumes it instead of the cleared one.
+        const newSessionId = `session_${Date.now()}`;
+        setSessionId(newSessionId);
+        vscode.postMessage({ command: 'saveSession', sessionId: newSessionId, messages: [] });
         // Also clear from localStorage
         try {
             localStorage.removeItem('superdesign-chat-history');
         } catch (error) {
             console.warn('Failed to clear chat history from localStorage:', error);
         }
-    }, []);
+    }, [flushSession, vscode]);
+
+    const listSessions = useCallback(() => {
+        vscode.postMessage({ command: 'listSessions' });
+    }, [vscode]);
+
+    const switchSession = useCallback((targetId: string) => {
+        if (targetId === sessionId) {
+            return;
+        }
+        flushSession();
+        vscode.postMessage({ command: 'switchSession', sessionId: targetId });
+    }, [flushSession, sessionId, vscode]);
 
-    const sendMessage = useCallback((message: string) => {
+    const forkSession = useCallback((messageIndex: number) => {
+        if (!sessionId) {
+            return;
+        }
+        // Results of the branch point's tool calls belong to it
+        let end = messageIndex + 1;
+        while (chatHistory[end]?.role === 'tool') {
+            end++;
+        }
+        flushSession();
+        vscode.postMessage({ command: 'forkSession', parentId: sessionId, messages: chatHistory.slice(0, end) });
+    }, [chatHistory, flushSession, sessionId, vscode]);
+
+    const sendMessage = useCallback((message: string, metadata?: MessageMetadata) => {
         setIsLoading(true);
         
         // Add user message to history
@@ -123,6 +320,7 @@ export function useChat(vscode: any): ChatHookResult {
             role: 'user',
             content: message,
             metadata: {
+                ...metadata,
                 timestamp: Date.now()
             }
         };
@@ -133,15 +331,58 @@ export function useChat(vscode: any): ChatHookResult {
         vscode.postMessage({
             command: 'chatMessage',
             message: message,
-            chatHistory: [...chatHistory, userMessage]
+            sessionId: sessionId,
+            chatHistory: [...chatHistory.filter(msg => !msg.metadata?.is_notice), userMessage]
+        });
+    }, [chatHistory, sessionId, vscode]);
+
+    const sendVariations = useCallback((message: string, count: number, contextFile?: string, metadata?: MessageMetadata) => {
+        setIsLoading(true);
+
+        const userMessage: ChatMessage = {
+            role: 'user',
+            content: message,
+            metadata: {
+                ...metadata,
+                timestamp: Date.now()
+            }
+        };
+
+        setChatHistory(prev => [...prev, userMessage]);
+
+        // Structured content (images, mentioned files) reaches the runs through the history,
+        // the text alone is used to name the variations
+        const prompt = typeof message === 'string'
+            ? message
+            : (message as any[]).find(part => part.type === 'text')?.text || '';
+
+        vscode.postMessage({
+            command: 'chatVariations',
+            message: prompt,
+            count: count,
+            contextFile: contextFile,
+            sessionId: sessionId,
+            chatHistory: [...chatHistory.filter(msg => !msg.metadata?.is_notice), userMessage]
         });
-    }, [chatHistory, vscode]);
+    }, [chatHistory, sessionId, vscode]);
 
     useEffect(() => {
         const messageHandler = (event: MessageEvent) => {
             const message = event.data;
             
             switch (message.command) {
+                case 'sessionLoaded':
+                    // No saved session yet keeps the cached history, which is then saved under the new id
+                    if (Array.isArray(message.messages)) {
+                        setChatHistory(message.messages);
+                    }
+                    setSessionId(message.sessionId);
+                    break;
+
+                case 'sessionList':
+                    setSessions(message.sessions || []);
+                    break;
+
                 case 'chatResponseChunk':
                     setChatHistory(prev => {
                         const newHistory = [...prev];
@@ -177,8 +418,8 @@ export function useChat(vscode: any): ChatHookResult {
                             };
                             
                             // Find the last assistant message and append tool call to it
-                            const lastMessage = newHistory[newHistory.length - 1];
-                            const lastIndex = newHistory.length - 1;
+                            const lastIndex = findLastMessageIndex(newHistory);
+                            const lastMessage = newHistory[lastIndex];
                             
                             if (lastMessage && lastMessage.role === 'assistant') {
                                 // Convert content to array format and append tool call
@@ -238,7 +479,8 @@ export function useChat(vscode: any): ChatHookResult {
                                 content: [toolResultPart],
                                 metadata: {
                                     timestamp: Date.now(),
-                                    session_id: message.metadata?.session_id
+                                    session_id: message.metadata?.session_id,
+                                    is_cancelled: message.metadata?.is_cancelled || false
                                 }
                             });
                         }
@@ -314,6 +556,202 @@ export function useChat(vscode: any): ChatHookResult {
                     });
                     break;
                     
+                case 'chatUsage':
+                    // Add a finished step's token usage to the latest assistant message
+                    setChatHistory(prev => {
+                        const newHistory = [...prev];
+                        const usage = message.metadata || {};
+
+                        for (let i = newHistory.length - 1; i >= 0; i--) {
+                            const msg = newHistory[i];
+                            if (msg.role === 'user') {
+                                // Don't attribute this turn's usage to an earlier turn
+                                break;
+                            }
+                            if (msg.role === 'assistant') {
+                                const previous = msg.metadata || {};
+                                const hasPricedUsage = previous.input_tokens === undefined || previous.total_cost_usd !== undefined;
+                                newHistory[i] = {
+                                    ...msg,
+                                    metadata: {
+                                        ...previous,
+                                        model: usage.model,
+                                        input_tokens: (previous.input_tokens || 0) + (usage.input_tokens || 0),
+                                        output_tokens: (previous.output_tokens || 0) + (usage.output_tokens || 0),
+                                        // Once any step is unpriced the message cost is unknown
+                                        total_cost_usd: hasPricedUsage && usage.total_cost_usd !== undefined
+                                            ? (previous.total_cost_usd || 0) + usage.total_cost_usd
+                                            : undefined,
+                                        duration_ms: (previous.duration_ms || 0) + (usage.duration_ms || 0)
+                                    }
+                                };
+                                break;
+                            }
+                        }
+
+                        return newHistory;
+                    });
+                    break;
+
+                case 'chatNotice':
+                    // History is compacted again on every turn, so only the latest compaction notice is kept
+                    setChatHistory(prev => [...prev.filter(msg => !(message.kind === 'compaction' && msg.metadata?.notice_kind === 'compaction')), {
+                        role: 'system',
+                        content: message.content,
+                        metadata: {
+                            timestamp: Date.now(),
+                            is_notice: true,
+                            notice_kind: message.kind
+                        }
+                    }]);
+                    break;
+
+                case 'chatStepBudgetExhausted':
+                    setChatHistory(prev => [...prev, {
+                        role: 'system',
+                        content: `Stopped after using the full step budget (${message.maxSteps} steps). The design may be incomplete.`,
+                        metadata: {
+                            timestamp: Date.now(),
+                            is_notice: true,
+                            notice_kind: 'step-budget'
+                        }
+                    }]);
+                    break;
+
+                case 'toolApprovalRequest':
+                    setChatHistory(prev => [...prev, {
+                        role: 'system',
+                        content: message.reason,
+                        metadata: {
+                            timestamp: Date.now(),
+                            is_notice: true,
+                            notice_kind: 'approval',
+                            tool_approval: {
+                                id: message.approvalId,
+                                toolName: message.toolName,
+                                reason: message.reason,
+                                args: message.args,
+                                status: 'pending'
+                            }
+                        }
+                    }]);
+                    break;
+
+                case 'toolApprovalResolved':
+                    // Answered on the extension side, e.g. denied because the request was stopped
+                    updateToolApproval(message.approvalId, message.decision);
+                    break;
+
+                case 'variationStart':
+                    setChatHistory(prev => [...prev, {
+                        role: 'assistant',
+                        content: `Generating ${message.variations.length} variations...`,
+                        metadata: {
+                            timestamp: Date.now(),
+                            variation_group: {
+                                id: message.groupId,
+                                variations: message.variations.map((variation: any) => ({
+                                    index: variation.index,
+                                    direction: variation.direction,
+                                    file: variation.file,
+                                    status: 'running',
+                                    steps: 0
+                                }))
+                            }
+                        }
+                    }]);
+                    break;
+
+                case 'variationProgress':
+                case 'variationEnd':
+                    setChatHistory(prev => prev.map(msg => {
+                        const group = msg.metadata?.variation_group;
+                        if (!group || group.id !== message.groupId) {
+                            return msg;
+                        }
+
+                        const variations = group.variations.map(variation => {
+                            if (variation.index !== message.index) {
+                                return variation;
+                            }
+                            return message.command === 'variationProgress'
+                                ? { ...variation, activity: message.activity, steps: message.steps }
+                                : { ...variation, status: message.status, summary: message.summary, error: message.error };
+                        });
+
+                        // The text content is what later turns send to the model
+                        const content = variations.some(variation => variation.status === 'running')
+                            ? msg.content
+                            : `Generated ${variations.length} variations:\n${variations.map(variation =>
+                                `- ${variation.file} (${variation.direction}): ${variation.status === 'done' ? variation.summary || 'done' : variation.error || variation.status}`
+                            ).join('\n')}`;
+
+                        return {
+                            ...msg,
+                            content,
+                            metadata: { ...msg.metadata, variation_group: { ...group, variations } }
+                        } as ChatMessage;
+                    }));
+                    break;
+
+                case 'designCritiqueStart':
+                    setChatHistory(prev => [...prev, {
+                        role: 'assistant',
+                        content: `Reviewing ${message.file}...`,
+                        metadata: {
+                            timestamp: Date.now(),
+                            design_critique: {
+                                id: message.critiqueId,
+                                file: message.file,
+                                status: 'running'
+                            }
+                        }
+                    }]);
+                    break;
+
+                case 'designCritiqueEnd':
+                    setChatHistory(prev => prev.map(msg => {
+                        const review = msg.metadata?.design_critique;
+                        if (!review || review.id !== message.critiqueId) {
+                            return msg;
+                        }
+
+                        if (message.error) {
+                            return {
+                                ...msg,
+                                content: `Design review of ${review.file} failed: ${message.error}`,
+                                metadata: { ...msg.metadata, design_critique: { ...review, status: 'error', error: message.error } }
+                            } as ChatMessage;
+                        }
+
+                        const critique = message.critique;
+                        // The text content is what the "apply fixes" turn sends to the model
+                        const content = [
+                            `Design review of ${critique.file}: ${critique.summary}`,
+                            ...critique.checks.map((check: DesignCritiqueCheck) =>
+                                `- ${check.id} ${check.score}/10${check.findings.length > 0 ? `: ${check.findings.join('; ')}` : ''}`
+                            ),
+                            ...(critique.fixes.length > 0 ? ['Suggested fixes:', ...critique.fixes.map((fix: string) => `- ${fix}`)] : [])
+                        ].join('\n');
+
+                        return {
+                            ...msg,
+                            content,
+                            metadata: {
+                                ...msg.metadata,
+                                design_critique: {
+                                    ...review,
+                                    file: critique.file,
+                                    status: 'done',
+                                    summary: critique.summary,
+                                    checks: critique.checks,
+                                    fixes: critique.fixes
+                                }
+                            }
+                        } as ChatMessage;
+                    }));
+                    break;
+
                 case 'chatStreamEnd':
                     console.log('Chat stream ended');
                     setIsLoading(false);
@@ -371,8 +809,16 @@ export function useChat(vscode: any): ChatHookResult {
     return {
         chatHistory,
         isLoading,
+        sessionUsage,
         sendMessage,
+        sendVariations,
+        respondToToolApproval,
         clearHistory,
-        setChatHistory
+        setChatHistory,
+        sessionId,
+        sessions,
+        listSessions,
+        switchSession,
+        forkSession
     };
 } 
\ No newline at end of file
@@ -0,0 +1,180 @@
+/**
+ * Image limits of the active provider, as sent by the extension
+ */
+export interface ImageLimits {
+    maxDimension: number;
+    maxBytes: number;
+    maxImages: number;
+    mimeTypes: string[];
+}
+
+/**
+ * Image re-encoded to fit the provider limits, as a data: URL
+ */
+export interface PreparedImage {
+    dataUrl: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    size: number;
+    originalWidth: number;
+    originalHeight: number;
+    originalSize: number;
+}
+
+// Used until the extension reports the active provider
+export const DEFAULT_IMAGE_LIMITS: ImageLimits = {
+    maxDimension: 1568,
+    maxBytes: 5 * 1024 * 1024,
+    maxImages: 20,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp']
+};
+
+// Lossy formats are tried at these qualities before the image is made smaller
+const QUALITY_STEPS = [0.85, 0.7];
+const SCALE_STEP = 0.75;
+const MIN_DIMENSION = 256;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/gif': 'gif'
+};
+
+export function getImageExtension(mimeType: string): string {
+    return FILE_EXTENSIONS[mimeType] || 'png';
+}
+
+export function formatImageSize(bytes: number): string {
+    return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error || new Error('Failed to read image'));
+        reader.readAsDataURL(blob);
+    });
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+    if (!match) {
+        throw new Error('Not a data URL');
+    }
+    const binary = match[2] ? atob(match[3]) : decodeURIComponent(match[3]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: match[1] || 'application/octet-stream' });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob | null> {
+    return new Promise(resolve => canvas.toBlob(resolve, mimeType, quality));
+}
+
+function hasTransparency(context: CanvasRenderingContext2D, width: number, height: number): boolean {
+    const pixels = context.getImageData(0, 0, width, height).data;
+    for (let i = 3; i < pixels.length; i += 4) {
+        if (pixels[i] < 255) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Transparent images stay lossless where possible, photos and screenshots become JPEG
+function getOutputTypes(transparent: boolean, limits: ImageLimits): string[] {
+    const preferred = transparent ? ['image/png', 'image/webp'] : ['image/jpeg', 'image/webp', 'image/png'];
+    const types = preferred.filter(type => limits.mimeTypes.includes(type));
+    return types.length > 0 ? types : ['image/png'];
+}
+
+/**
+ * Downscale and re-encode an image until it fits the provider limits.
+ * Drawing through a canvas keeps only the pixels, so EXIF data (GPS position,
+ * camera details) is dropped; orientation is applied before that.
+ * Animated GIFs keep their first frame.
+ */
+export async function prepareImage(source: Blob, limits: ImageLimits): Promise<PreparedImage> {
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+    } catch {
+        throw new Error(`Unsupported image format${source.type ? ` (${source.type})` : ''}`);
+    }
+
+    try {
+        const originalWidth = bitmap.width;
+        const originalHeight = bitmap.height;
+        let scale = Math.min(1, limits.maxDimension / Math.max(originalWidth, originalHeight));
+
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Canvas is not available');
+        }
+
+        let outputTypes: string[] | undefined;
+        for (;;) {
+            canvas.width = Math.max(1, Math.round(originalWidth * scale));
+            canvas.height = Math.max(1, Math.round(originalHeight * scale));
+            context.clearRect(0, 0, canvas.width, canvas.height);
+            context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+            outputTypes = outputTypes || getOutputTypes(hasTransparency(context, canvas.width, canvas.height), limits);
+
+            for (const mimeType of outputTypes) {
+                const qualities = mimeType === 'image/png' ? [undefined] : QUALITY_STEPS;
+                for (const quality of qualities) {
+                    const blob = await canvasToBlob(canvas, mimeType, quality);
+                    // Browsers fall back to PNG for types they can't encode
+                    if (blob && blob.type === mimeType && blob.size <= limits.maxBytes) {
+                        return {
+                            dataUrl: await blobToDataUrl(blob),
+                            mimeType,
+                            width: canvas.width,
+                            height: canvas.height,
+                            size: blob.size,
+                            originalWidth,
+                            originalHeight,
+                            originalSize: source.size
+                        };
+                    }
+                }
+            }
+
+            scale *= SCALE_STEP;
+            if (Math.max(originalWidth, originalHeight) * scale < MIN_DIMENSION) {
+                break;
+            }
+        }
+
+        throw new Error(`Image could not be reduced below ${formatImageSize(limits.maxBytes)}`);
+    } finally {
+        bitmap.close();
+    }
+}
+
+/**
+ * Drop image parts beyond the provider's per-message limit, noting it in the first text part
+ */
+export function limitImageParts(parts: any[], maxImages: number): any[] {
+    const imageCount = parts.filter(part => part.type === 'image').length;
+    if (imageCount <= maxImages) {
+        return parts;
+    }
+
+    let kept = 0;
+    const limited = parts.filter(part => part.type !== 'image' || kept++ < maxImages);
+    const textPart = limited.find(part => part.type === 'text');
+    const note = `[Note: ${imageCount - maxImages} of ${imageCount} images were left out, the selected model accepts ${maxImages} per message]`;
+    if (textPart) {
+        textPart.text += `\n\n${note}`;
+    } else {
+        limited.unshift({ type: 'text', text: note });
+    }
+    return limited;
+}
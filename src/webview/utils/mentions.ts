@@ -0,0 +1,63 @@
+export type MentionKind = 'design' | 'theme' | 'moodboard' | 'file';
+
+/**
+ * Workspace file offered after @, path relative to the workspace root
+ */
+export interface MentionOption {
+    path: string;
+    kind: MentionKind;
+}
+
+/**
+ * Mentioned file as read by the extension when the message is sent
+ */
+export interface MentionedFileContent {
+    path: string;
+    type: 'text' | 'image';
+    text?: string;
+    image?: string;
+    mimeType?: string;
+    truncated?: boolean;
+    error?: string;
+}
+
+export const MENTION_ICONS: Record<MentionKind, string> = {
+    design: '🎨',
+    theme: '🎨',
+    moodboard: '🖼️',
+    file: '📄'
+};
+
+/**
+ * Text typed after an @ at the end of the input, for autocomplete
+ */
+export function getMentionQuery(input: string): string | undefined {
+    return input.match(/(?:^|\s)@([^\s@]*)$/)?.[1];
+}
+
+export function removeMentionQuery(input: string): string {
+    return input.replace(/@[^\s@]*$/, '');
+}
+
+export function getFileName(filePath: string): string {
+    return filePath.split('/').pop() || filePath;
+}
+
+// Text files are wrapped in a tag naming their path so the model can refer to them
+function formatTextFile(file: MentionedFileContent): string {
+    if (file.error) {
+        return `[Note: Could not attach ${file.path}: ${file.error}]`;
+    }
+    const note = file.truncated ? '\n[truncated]' : '';
+    return `<file path="${file.path}">\n${file.text}${note}\n</file>`;
+}
+
+/**
+ * Message parts for the mentioned files: text files as text parts, images as image parts
+ */
+export function buildMentionParts(files: MentionedFileContent[]): any[] {
+    return files.map(file => file.type === 'image' && file.image
+        ? { type: 'image', image: file.image, mimeType: file.mimeType }
+        : { type: 'text', text: formatTextFile(file) }
+    );
+}
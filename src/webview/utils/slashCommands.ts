@@ -0,0 +1,64 @@
+/**
+ * Slash command as sent by the extension (built-in or from .superdesign/commands)
+ */
+export interface SlashCommandOption {
+    name: string;
+    description: string;
+    argumentHint?: string;
+    template: string;
+    source: 'builtin' | 'workspace';
+    variations?: boolean;
+}
+
+export interface ExpandedSlashCommand {
+    command: SlashCommandOption;
+    prompt: string;
+    // Set for commands that run as parallel variations
+    variationCount?: number;
+}
+
+/**
+ * Split arguments on whitespace, keeping "quoted strings" together
+ */
+export function splitArguments(input: string): string[] {
+    return Array.from(input.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), match => match[1] ?? match[2] ?? match[3]);
+}
+
+/**
+ * Fill {{args}}, {{1}}, {{2}}... and {{name|fallback}} placeholders
+ */
+export function expandTemplate(template: string, args: string): string {
+    const positional = splitArguments(args);
+    return template.replace(/\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g, (_, name: string, fallback?: string) => {
+        const value = name === 'args' ? args.trim() : positional[Number(name) - 1] ?? '';
+        return value || fallback?.trim() || '';
+    });
+}
+
+/**
+ * Name typed so far while the input is still just "/name", for autocomplete
+ */
+export function getCommandQuery(input: string): string | undefined {
+    return input.match(/^\/([\w-]*)$/)?.[1];
+}
+
+/**
+ * Expand input starting with a known /command. Unknown commands are sent as typed.
+ */
+export function expandSlashCommand(input: string, commands: SlashCommandOption[]): ExpandedSlashCommand | undefined {
+    const match = input.match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+    const command = match && commands.find(candidate => candidate.name === match[1]);
+    if (!command) {
+        return undefined;
+    }
+
+    let args = match![2] ?? '';
+    let variationCount: number | undefined;
+    if (command.variations) {
+        const count = args.match(/^(\d+)\s*/);
+        variationCount = count ? Number(count[1]) : 3;
+        args = count ? args.slice(count[0].length) : args;
+    }
+
+    return { command, prompt: expandTemplate(command.template, args), variationCount };
+}